@@ -1,19 +1,90 @@
 import {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	NodeOperationError,
 } from 'n8n-workflow';
 import {
 	addInterfaceProp,
 	astToConfig,
+	ConfigFormat,
+	detectConfigFormat,
 	diffAst,
+	DiffOptions,
 	Interface,
 	JuniperDiff,
 	JuniperNode,
-	parseJuniperConfig,
+	parseConfigWithDiagnostics,
+	parseJuniperConfigWithDiagnostics,
 } from './util/juniper';
-import { convertToJinja2Ast } from './util/jinja2';
+import { generateJinja2 } from './util/jinja2';
+import { extractVariables } from './util/variables';
+import { renderJunosCompare, renderUnifiedDiff } from './util/compare';
+import {
+	ansibleProjectFiles,
+	ansibleVarsFiles,
+	factorVariables,
+	templateHosts,
+} from './util/ansible';
+import { checkCompliance, ComplianceRule, validateRules } from './util/compliance';
+import { driftReport } from './util/drift';
+import { GoldenTemplate, generateGoldenTemplate } from './util/golden';
+import { expandGroups } from './util/groups';
+import { classifyImpact, ImpactRule, validateImpactRules } from './util/impact';
+import { analyzeConfig } from './util/model';
+import { normalizeAst } from './util/normalize';
+import { applyDiff } from './util/patch';
+import { QueryMatch, queryAst } from './util/query';
+import { checkReferences } from './util/references';
+import { redactSecrets, restoreSecrets } from './util/redact';
+import { generateChangeScript } from './util/script';
+import { createZip, readZip } from './util/zip';
+import { renderJinja2 } from './util/template';
+
+const MIME_TYPES: Record<string, string> = {
+	conf: 'text/plain',
+	set: 'text/plain',
+	j2: 'text/plain',
+	diff: 'text/x-diff',
+	json: 'application/json',
+	xml: 'application/xml',
+};
+
+// File extension of each Parse output format
+const CONFIG_EXTENSIONS: Record<string, string> = {
+	text: 'conf',
+	set: 'set',
+	xml: 'xml',
+	json: 'json',
+};
+
+/**
+ * The AST in an input file: AST JSON, the output of the Parse action, or a configuration
+ * @param {string} text - The file content
+ * @return {Object} - The AST
+ */
+function astFromFile(text: string): JuniperNode {
+	if (detectConfigFormat(text) === 'json') {
+		const value = JSON.parse(text);
+		if (value?.type === 'root') return value;
+		if (value?.ast?.type === 'root') return value.ast;
+	}
+	return parseConfigWithDiagnostics(text).ast;
+}
+
+/**
+ * The diff in an input file: a diff array, or the output of the Compare action
+ * @param {string} text - The file content
+ * @return {Array|undefined} - The diff entries, undefined when the JSON holds no diff
+ */
+function diffFromFile(text: string): JuniperDiff[] | undefined {
+	const value = JSON.parse(text);
+	const diff = Array.isArray(value) ? value : value?.diff;
+	return Array.isArray(diff) ? diff : undefined;
+}
 
 export class Juniper implements INodeType {
 	description: INodeTypeDescription = {
@@ -36,46 +107,469 @@ export class Juniper implements INodeType {
 				type: 'options',
 				options: [
 					{
-						name: 'Parse Juniper Config',
-						value: 'parse',
+						name: 'Analyze Config',
+						value: 'analyze',
+					},
+					{
+						name: 'Apply Juniper Diff',
+						value: 'applyDiff',
+					},
+					{
+						name: 'Check Compliance',
+						value: 'checkCompliance',
+					},
+					{
+						name: 'Check References',
+						value: 'checkReferences',
+					},
+					{
+						name: 'Classify Change Impact',
+						value: 'classifyImpact',
 					},
 					{
 						name: 'Compare Juniper Configs',
 						value: 'diff',
 					},
+					{
+						name: 'Drift Report',
+						value: 'driftReport',
+					},
 					{
 						name: 'Extract Juniper Variables',
 						value: 'extractVariables',
 					},
+					{
+						name: 'Format Juniper Config',
+						value: 'format',
+					},
+					{
+						name: 'Generate Change Script',
+						value: 'changeScript',
+					},
+					{
+						name: 'Generate Golden Template',
+						value: 'goldenTemplate',
+					},
 					{
 						name: 'Generate Jinja2 File',
 						value: 'generateJinja2',
 					},
+					{
+						name: 'Normalize Juniper Config',
+						value: 'normalize',
+					},
+					{
+						name: 'Parse Juniper Config',
+						value: 'parse',
+					},
+					{
+						name: 'Query Juniper Config',
+						value: 'query',
+					},
+					{
+						name: 'Redact Secrets',
+						value: 'redactSecrets',
+					},
+					{
+						name: 'Render Template',
+						value: 'renderTemplate',
+					},
+					{
+						name: 'Restore Secrets',
+						value: 'restoreSecrets',
+					},
 				],
 				default: 'parse',
 			},
+			{
+				displayName: 'Input Source',
+				name: 'inputSource',
+				type: 'options',
+				options: [
+					{
+						name: 'JSON Parameters',
+						value: 'json',
+						description: 'Read the AST, diff or template from the parameters below',
+					},
+					{
+						name: 'Binary Files',
+						value: 'binary',
+						description:
+							'Read the AST (AST JSON, the output of Parse, or a configuration in any format), diff JSON or template from binary properties',
+					},
+				],
+				default: 'json',
+				displayOptions: {
+					hide: {
+						action: ['parse'],
+					},
+				},
+			},
 			{
 				displayName: 'Input Binary Field',
 				name: 'inputBinaryField',
 				type: 'string',
 				default: 'data',
 				required: true,
-				description: 'Name of the binary property containing the file to process',
+				description:
+					'Name of the binary property containing the configuration to parse, the AST or configuration to process, or the template for Render Template',
+				displayOptions: {
+					// Parse always reads a file and has no Input Source
+					hide: {
+						inputSource: ['json'],
+					},
+				},
+			},
+			{
+				displayName: 'Diff Binary Field',
+				name: 'diffBinaryField',
+				type: 'string',
+				default: 'diff',
+				required: true,
+				description:
+					'Name of the binary property containing the diff JSON, either the diff array or the output of Compare',
+				displayOptions: {
+					show: {
+						action: ['extractVariables', 'generateJinja2', 'applyDiff', 'classifyImpact'],
+						inputSource: ['binary'],
+					},
+				},
+			},
+			{
+				displayName: 'Zip Archive',
+				name: 'zipInput',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether the binary file is a zip archive of configurations, each parsed into its own item',
 				displayOptions: {
 					show: {
 						action: ['parse'],
 					},
 				},
 			},
+			{
+				displayName: 'Input Format',
+				name: 'inputFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'Curly-Brace Config',
+						value: 'text',
+					},
+					{
+						name: 'Detect From Content',
+						value: 'auto',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+					},
+					{
+						name: 'Set Commands',
+						value: 'set',
+					},
+					{
+						name: 'XML',
+						value: 'xml',
+					},
+				],
+				default: 'text',
+				description: 'Format of the configuration file',
+				displayOptions: {
+					show: {
+						action: ['parse'],
+					},
+				},
+			},
+			{
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'AST Only',
+						value: 'ast',
+					},
+					{
+						name: 'Curly-Brace Config',
+						value: 'text',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+					},
+					{
+						name: 'Set Commands',
+						value: 'set',
+					},
+					{
+						name: 'XML',
+						value: 'xml',
+					},
+				],
+				default: 'ast',
+				description: 'Whether to also return the parsed configuration rendered in another format',
+				displayOptions: {
+					show: {
+						action: ['parse'],
+					},
+				},
+			},
+			{
+				displayName: 'Expand Groups',
+				name: 'expandGroups',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to merge groups into the hierarchy levels that apply them, returning the effective configuration',
+				displayOptions: {
+					show: {
+						action: ['parse'],
+					},
+				},
+			},
+			{
+				displayName: 'Strict',
+				name: 'strict',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to fail the item when the configuration has any parse error',
+				displayOptions: {
+					show: {
+						action: ['parse'],
+					},
+				},
+			},
+			{
+				displayName: 'Juniper Configuration AST',
+				name: 'ast',
+				type: 'json',
+				default: '{}',
+				required: true,
+				displayOptions: {
+					show: {
+						action: [
+							'diff',
+							'generateJinja2',
+							'applyDiff',
+							'driftReport',
+							'query',
+							'checkCompliance',
+							'normalize',
+							'redactSecrets',
+							'restoreSecrets',
+							'format',
+							'analyze',
+							'checkReferences',
+							'changeScript',
+							'goldenTemplate',
+						],
+						inputSource: ['json'],
+					},
+				},
+			},
 			{
 				displayName: 'Juniper Configuration AST',
 				name: 'ast',
 				type: 'json',
 				default: '{}',
 				required: true,
+				description: 'The AST the diff was computed from, whose template variables are exported',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+						ansibleOutput: ['files', 'zip'],
+						inputSource: ['json'],
+					},
+				},
+			},
+			{
+				displayName: 'Indentation',
+				name: 'indent',
+				type: 'options',
+				options: [
+					{
+						name: '2 Spaces',
+						value: 2,
+					},
+					{
+						name: '4 Spaces',
+						value: 4,
+					},
+					{
+						name: 'Tab',
+						value: 'tab',
+					},
+				],
+				default: 4,
+				displayOptions: {
+					show: {
+						action: ['format'],
+					},
+				},
+			},
+			{
+				displayName: 'Blank Lines Between Top-Level Statements',
+				name: 'blankLines',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				displayOptions: {
+					show: {
+						action: ['format'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Inactive Statements',
+				name: 'includeInactive',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to print statements tagged inactive:',
+				displayOptions: {
+					show: {
+						action: ['format'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Comments',
+				name: 'includeComments',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to print # comments and /* */ annotations',
+				displayOptions: {
+					show: {
+						action: ['format'],
+					},
+				},
+			},
+			{
+				displayName: 'Query',
+				name: 'query',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'protocols/bgp/group[name=EBGP]/neighbor',
+				description:
+					'Path of the statements to select. Steps are separated by "/", "//" matches any depth, "*" and "?" are wildcards and predicates such as [name=EBGP] filter the matches.',
+				displayOptions: {
+					show: {
+						action: ['query'],
+					},
+				},
+			},
+			{
+				displayName: 'Rules',
+				name: 'rules',
+				type: 'json',
+				default: '[]',
+				required: true,
+				description:
+					'Compliance rules, each with a "path" query and constraints such as mustExist, mustNotExist, minCount, maxCount, valuePattern, forbiddenValuePattern, require or forbid',
+				displayOptions: {
+					show: {
+						action: ['checkCompliance'],
+					},
+				},
+			},
+			{
+				displayName: 'Device Name',
+				name: 'deviceName',
+				type: 'string',
+				default: '',
+				description:
+					'Name of the device, defaults to the item number. In a drift report the first item is the baseline, for Ansible it names the host_vars file, for a golden template its variables.',
 				displayOptions: {
 					show: {
-						action: ['diff', 'generateJinja2'],
+						action: ['driftReport', 'extractVariables', 'goldenTemplate'],
+					},
+				},
+			},
+			{
+				displayName: 'Match Siblings By',
+				name: 'matchBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Position',
+						value: 'index',
+						description: 'Compare the children of each block in order',
+					},
+					{
+						name: 'Identity',
+						value: 'identity',
+						description:
+							'Pair children by what they configure and report add, remove, move and modify operations',
+					},
+				],
+				default: 'index',
+				displayOptions: {
+					show: {
+						action: ['diff', 'applyDiff'],
+					},
+				},
+			},
+			{
+				displayName: 'Ignore Ordering',
+				name: 'ignoreOrdering',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to normalize both configs first, so statement order, repeated hierarchies and quoting do not show up as changes. Firewall and policy terms keep their order.',
+				displayOptions: {
+					show: {
+						action: ['diff'],
+					},
+				},
+			},
+			{
+				displayName: 'Diff Outputs',
+				name: 'diffOutputs',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Diff JSON',
+						value: 'diff',
+						description: 'The JuniperDiff entries, in the `diff` field',
+					},
+					{
+						name: 'Impact Analysis',
+						value: 'impact',
+						description:
+							'The changes with their subsystem and risk, and a summary, in the `impact` field',
+					},
+					{
+						name: 'Junos Compare',
+						value: 'compare',
+						description: 'Text in the `show | compare` format, in the `compare` field',
+					},
+					{
+						name: 'Unified Diff',
+						value: 'unified',
+						description: 'A unified diff of the two rendered configs, in the `unifiedDiff` field',
+					},
+				],
+				default: ['diff'],
+				displayOptions: {
+					show: {
+						action: ['diff'],
+					},
+				},
+			},
+			{
+				displayName: 'Impact Rules',
+				name: 'impactRules',
+				type: 'json',
+				default: '',
+				description:
+					'Risk rules, each with a "path" pattern, a "risk" of low, medium or high and optionally the "changes" (add, remove, modify, move) and a "reason". The first rule that matches a statement applies. Leave empty to use the built-in rules.',
+				displayOptions: {
+					show: {
+						action: ['diff', 'classifyImpact'],
 					},
 				},
 			},
@@ -87,19 +581,251 @@ export class Juniper implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						action: ['extractVariables', 'generateJinja2'],
+						action: ['extractVariables', 'generateJinja2', 'applyDiff', 'classifyImpact'],
+						inputSource: ['json'],
+					},
+				},
+			},
+			{
+				displayName: 'Extract',
+				name: 'variableScope',
+				type: 'options',
+				options: [
+					{
+						name: 'Interfaces',
+						value: 'interfaces',
+						description: 'Return the interface values a positional diff replaces',
+					},
+					{
+						name: 'Every Hierarchy',
+						value: 'all',
+						description:
+							'Return a nested variable document of every value an identity diff changes, with a JSON Schema',
+					},
+				],
+				default: 'interfaces',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+						ansibleOutput: ['none'],
+					},
+				},
+			},
+			{
+				displayName: 'Values From',
+				name: 'side',
+				type: 'options',
+				options: [
+					{
+						name: 'Old Configuration',
+						value: 'old',
+					},
+					{
+						name: 'New Configuration',
+						value: 'new',
+					},
+				],
+				default: 'old',
+				description: 'Which side of the diff to take the variable values from',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+						ansibleOutput: ['none'],
+						variableScope: ['all'],
+					},
+				},
+			},
+			{
+				displayName: 'Ansible Output',
+				name: 'ansibleOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Return the variables of each item as JSON',
+					},
+					{
+						name: 'Variable Files',
+						value: 'files',
+						description:
+							'Return one item with a host_vars YAML file per device, holding the variables of its Jinja2 template, and a group_vars file with the values they share',
+					},
+					{
+						name: 'Zip Archive',
+						value: 'zip',
+						description:
+							'Return one item with a zip of the variable files, the Jinja2 template the devices share, an inventory and a playbook that renders it',
+					},
+				],
+				default: 'none',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+					},
+				},
+			},
+			{
+				displayName: 'Inventory Group',
+				name: 'ansibleGroup',
+				type: 'string',
+				default: 'all',
+				description: 'Group of the devices, which names the group_vars file',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+						ansibleOutput: ['files', 'zip'],
+					},
+				},
+			},
+			{
+				displayName: 'Template File Name',
+				name: 'templateFile',
+				type: 'string',
+				default: 'juniper.conf.j2',
+				description:
+					'File name of the generated Jinja2 template, which the playbook expects in templates/',
+				displayOptions: {
+					show: {
+						action: ['extractVariables'],
+						ansibleOutput: ['zip'],
+					},
+				},
+			},
+			{
+				displayName: 'Render Config',
+				name: 'renderConfig',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to also return the patched configuration as text',
+				displayOptions: {
+					show: {
+						action: ['applyDiff'],
+					},
+				},
+			},
+			{
+				displayName: 'Fail on Undefined References',
+				name: 'failOnUndefined',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to fail the item when a statement refers to an object that is not defined, instead of returning the report',
+				displayOptions: {
+					show: {
+						action: ['checkReferences'],
+					},
+				},
+			},
+			{
+				displayName: 'Fail on Conflict',
+				name: 'failOnConflict',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to fail the item when the AST no longer matches a change, instead of returning the conflicts',
+				displayOptions: {
+					show: {
+						action: ['applyDiff'],
+					},
+				},
+			},
+			{
+				displayName: 'Redact Secrets',
+				name: 'redact',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to replace passwords, keys and SNMP communities with placeholder tokens, returning the original values in the `secrets` field',
+				displayOptions: {
+					show: {
+						action: ['parse', 'generateJinja2'],
+					},
+				},
+			},
+			{
+				displayName: 'Additional Paths to Redact',
+				name: 'redactPaths',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default: '',
+				placeholder: 'system/login/message',
+				description:
+					'Path queries of further statements whose values are secret, one per line. Tokens are shared by all items.',
+				displayOptions: {
+					show: {
+						action: ['parse', 'generateJinja2', 'redactSecrets'],
+					},
+				},
+			},
+			{
+				displayName: 'Secrets',
+				name: 'secretTokens',
+				type: 'json',
+				default: '{}',
+				required: true,
+				description: 'The `secrets` token map returned when the AST was redacted',
+				displayOptions: {
+					show: {
+						action: ['restoreSecrets'],
 					},
 				},
 			},
 			{
-				displayName: 'Interface',
-				name: 'interface',
+				displayName: 'Verify Template',
+				name: 'verifyTemplate',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to render the template with the generated variables, parse the result and report how it differs from the AST',
+				displayOptions: {
+					show: {
+						action: ['generateJinja2', 'goldenTemplate'],
+					},
+				},
+			},
+			{
+				displayName: 'Template',
+				name: 'template',
+				type: 'string',
+				typeOptions: {
+					rows: 10,
+				},
+				default: '',
+				required: true,
+				description: 'Jinja2 template to render',
+				displayOptions: {
+					show: {
+						action: ['renderTemplate'],
+						inputSource: ['json'],
+					},
+				},
+			},
+			{
+				displayName: 'Variables',
+				name: 'variables',
 				type: 'json',
 				default: '{}',
 				required: true,
+				description: 'Variables available to the template',
 				displayOptions: {
 					show: {
-						action: ['generateJinja2'],
+						action: ['renderTemplate'],
+					},
+				},
+			},
+			{
+				displayName: 'Write Results as Files',
+				name: 'writeBinary',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to return the configs, ASTs, scripts, templates, diffs and reports as binary files (.conf, .set, JSON, .j2, .diff) instead of JSON fields',
+				displayOptions: {
+					hide: {
+						action: ['query'],
 					},
 				},
 			},
@@ -108,6 +834,103 @@ export class Juniper implements INodeType {
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		// Shared by all items, so a secret gets the same token wherever it appears
+		const secretTokens: Record<string, string> = {};
+
+		const redact = (ast: JuniperNode, i: number) => {
+			const paths = (this.getNodeParameter('redactPaths', i) as string)
+				.split('\n')
+				.map((path) => path.trim())
+				.filter(Boolean);
+			try {
+				return redactSecrets(ast, { paths, tokens: secretTokens });
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+			}
+		};
+
+		const fromBinary = (i: number) => this.getNodeParameter('inputSource', i, 'json') === 'binary';
+
+		// Text of the binary property named by a parameter
+		const readFile = async (i: number, parameter: string) => {
+			const field = this.getNodeParameter(parameter, i) as string;
+			this.helpers.assertBinaryData(i, field);
+			return (await this.helpers.getBinaryDataBuffer(i, field)).toString('utf8');
+		};
+
+		const getAst = async (i: number): Promise<JuniperNode> => {
+			if (!fromBinary(i)) return this.getNodeParameter('ast', i) as JuniperNode;
+			try {
+				return astFromFile(await readFile(i, 'inputBinaryField'));
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), `Could not read the AST: ${error.message}`, {
+					itemIndex: i,
+				});
+			}
+		};
+
+		const getDiff = async (i: number): Promise<JuniperDiff[]> => {
+			if (!fromBinary(i)) return this.getNodeParameter('diff', i) as JuniperDiff[];
+
+			let diff: JuniperDiff[] | undefined;
+			let reason = 'expected a diff array or an object with a "diff" array';
+			try {
+				diff = diffFromFile(await readFile(i, 'diffBinaryField'));
+			} catch (error) {
+				reason = error.message;
+			}
+			if (!diff) {
+				throw new NodeOperationError(this.getNode(), `Could not read the diff: ${reason}`, {
+					itemIndex: i,
+				});
+			}
+			return diff;
+		};
+
+		// Name for the files written for an item, from its input file when there is one
+		const baseName = (i: number) => {
+			const field = this.getNodeParameter('inputBinaryField', i, 'data') as string;
+			const fileName = fromBinary(i) ? items[i].binary?.[field]?.fileName : undefined;
+			return fileName ? fileName.replace(/\.[^.]*$/, '') : `item-${i}`;
+		};
+
+		// The impact rules of an item, undefined for the built-in rules
+		const getImpactRules = (i: number): ImpactRule[] | undefined => {
+			const value = this.getNodeParameter('impactRules', i, '');
+			if (value === '' || value === undefined) return undefined;
+			try {
+				// Typed in rules arrive as a string, rules from an expression as an array
+				return validateImpactRules(typeof value === 'string' ? JSON.parse(value) : value);
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Could not read the impact rules: ${error.message}`,
+					{ itemIndex: i },
+				);
+			}
+		};
+
+		// Move the named fields of an output into binary files when the item asks for files
+		const toOutput = async (
+			i: number,
+			json: IDataObject,
+			files: Record<string, string>,
+		): Promise<INodeExecutionData> => {
+			if (!(this.getNodeParameter('writeBinary', i, false) as boolean)) return { json };
+
+			const binary: IBinaryKeyData = {};
+			for (const [field, fileName] of Object.entries(files)) {
+				const value = json[field];
+				if (value === undefined) continue;
+				binary[field] = await this.helpers.prepareBinaryData(
+					Buffer.from(typeof value === 'string' ? value : JSON.stringify(value, null, 2), 'utf8'),
+					fileName,
+					MIME_TYPES[fileName.split('.').pop() ?? ''],
+				);
+				delete json[field];
+			}
+			return { json, binary };
+		};
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -117,44 +940,556 @@ export class Juniper implements INodeType {
 					case 'parse': {
 						const inputBinaryField = this.getNodeParameter('inputBinaryField', i) as string;
 						const binaryData = this.helpers.assertBinaryData(i, inputBinaryField);
-						const stringData = Buffer.from(binaryData.data, 'base64').toString('utf8');
+						const buffer = await this.helpers.getBinaryDataBuffer(i, inputBinaryField);
+						const inputFormat = this.getNodeParameter('inputFormat', i) as ConfigFormat | 'auto';
+						const outputFormat = this.getNodeParameter('outputFormat', i) as string;
+						const strict = this.getNodeParameter('strict', i) as boolean;
+						const zipInput = this.getNodeParameter('zipInput', i) as boolean;
+
+						let files: Array<{ path: string; content: Buffer }>;
+						try {
+							files = zipInput
+								? readZip(buffer).filter(({ path }) => !path.startsWith('__MACOSX/'))
+								: [{ path: binaryData.fileName ?? `item-${i}`, content: buffer }];
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+
+						for (const { path, content } of files) {
+							const { ast: parsed, diagnostics } = parseConfigWithDiagnostics(
+								content.toString('utf8'),
+								{ format: inputFormat },
+							);
+
+							const errors = diagnostics.filter(({ severity }) => severity === 'error');
+							if (strict && errors.length) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`${zipInput ? `${path}: ` : ''}Configuration has ${errors.length} parse error(s), the first at line ${errors[0].line}: ${errors[0].message}`,
+									{ itemIndex: i },
+								);
+							}
+
+							let ast = parsed;
+							if (this.getNodeParameter('expandGroups', i) as boolean) {
+								try {
+									ast = expandGroups(parsed);
+								} catch (error) {
+									throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+								}
+							}
+
+							let secrets: IDataObject | undefined;
+							if (this.getNodeParameter('redact', i) as boolean) {
+								({ ast, tokens: secrets } = redact(ast, i));
+							}
 
-						returnData.push({ json: { ast: parseJuniperConfig(stringData) } });
+							const json: IDataObject = {
+								...(zipInput ? { fileName: path } : {}),
+								ast,
+								diagnostics,
+								...(secrets ? { secrets } : {}),
+							};
+
+							if (outputFormat !== 'ast') {
+								const format = outputFormat as ConfigFormat;
+								json.config = astToConfig(ast, { format });
+							}
+
+							const name = (path.split('/').pop() ?? path).replace(/\.[^.]*$/, '');
+							returnData.push(
+								await toOutput(i, json, {
+									ast: `${name}.ast.json`,
+									config: `${name}.${CONFIG_EXTENSIONS[outputFormat]}`,
+								}),
+							);
+						}
 
 						break;
 					}
 					case 'diff': {
 						if (i < items.length / 2) {
-							const ast1 = this.getNodeParameter('ast', i * 2) as JuniperNode;
-							const ast2 = this.getNodeParameter('ast', i * 2 + 1) as JuniperNode;
+							let ast1 = await getAst(i * 2);
+							let ast2 = await getAst(i * 2 + 1);
+							if (this.getNodeParameter('ignoreOrdering', i * 2) as boolean) {
+								[ast1, ast2] = [normalizeAst(ast1), normalizeAst(ast2)];
+							}
+							const matchBy = this.getNodeParameter('matchBy', i * 2) as DiffOptions['matchBy'];
+							const diffOutputs = this.getNodeParameter('diffOutputs', i * 2) as string[];
+							const [name1, name2] = [baseName(i * 2), baseName(i * 2 + 1)];
+
+							for (const [from, to, fromName, toName] of [
+								[ast1, ast2, name1, name2],
+								[ast2, ast1, name2, name1],
+							] as Array<[JuniperNode, JuniperNode, string, string]>) {
+								const json: IDataObject = {};
+
+								if (diffOutputs.includes('diff')) {
+									json.diff = diffAst(from, to, { matchBy }) as unknown as IDataObject[];
+								}
+								if (diffOutputs.includes('compare')) {
+									// The compare format needs identity matching to find the right hierarchy
+									json.compare = renderJunosCompare(diffAst(from, to, { matchBy: 'identity' }));
+								}
+								if (diffOutputs.includes('impact')) {
+									json.impact = classifyImpact(
+										diffAst(from, to, { matchBy: 'identity' }),
+										getImpactRules(i * 2),
+									) as unknown as IDataObject;
+								}
+								if (diffOutputs.includes('unified')) {
+									json.unifiedDiff = renderUnifiedDiff(astToConfig(from), astToConfig(to), {
+										oldName: `${fromName}.conf`,
+										newName: `${toName}.conf`,
+									});
+								}
+
+								returnData.push(
+									await toOutput(i * 2, json, {
+										diff: `${fromName}-diff.json`,
+										compare: `${fromName}-compare.diff`,
+										impact: `${fromName}-impact.json`,
+										unifiedDiff: `${fromName}-unifiedDiff.diff`,
+									}),
+								);
+							}
+						}
+
+						break;
+					}
+					case 'changeScript': {
+						// Items come in pairs, the current configuration followed by the new one
+						if (i < items.length / 2) {
+							const { commands, rollback } = generateChangeScript(
+								await getAst(i * 2),
+								await getAst(i * 2 + 1),
+							);
+							const name = baseName(i * 2);
 
 							returnData.push(
-								{ json: { diff: diffAst(ast1, ast2) } },
-								{ json: { diff: diffAst(ast2, ast1) } },
+								await toOutput(
+									i * 2,
+									{ script: commands.join('\n'), rollback: rollback.join('\n') },
+									{ script: `${name}-script.set`, rollback: `${name}-rollback.set` },
+								),
 							);
 						}
 
 						break;
 					}
+					case 'driftReport': {
+						// Every item takes part in one report, build it once
+						if (i > 0) break;
+
+						const [baseline, ...devices] = await Promise.all(
+							items.map(async (_item, index) => ({
+								name: (this.getNodeParameter('deviceName', index) as string) || `item-${index}`,
+								ast: await getAst(index),
+							})),
+						);
+						const report = driftReport(baseline.ast, devices);
+
+						returnData.push(
+							await toOutput(
+								i,
+								{
+									baseline: baseline.name,
+									...(report as unknown as IDataObject),
+								},
+								{ devices: 'drift-report.json' },
+							),
+						);
+
+						break;
+					}
 					case 'extractVariables': {
-						const diff = this.getNodeParameter('diff', i) as JuniperDiff[];
-						const interfaces = diff.reduce((acc, { absolutePath, type, oldValue }) => {
-							if (type !== 'replace') return acc;
-							return addInterfaceProp(acc, absolutePath, oldValue);
-						}, [] as Interface[]);
+						const ansibleOutput = this.getNodeParameter('ansibleOutput', i) as string;
+						if (ansibleOutput === 'none') {
+							const diff = await getDiff(i);
 
-						returnData.push({ json: { interfaces } });
+							if ((this.getNodeParameter('variableScope', i) as string) === 'interfaces') {
+								const interfaces = diff.reduce((acc, { absolutePath, type, oldValue }) => {
+									if (type !== 'replace') return acc;
+									return addInterfaceProp(acc, absolutePath, oldValue);
+								}, [] as Interface[]);
+
+								returnData.push({ json: { interfaces } });
+
+								break;
+							}
+
+							const side = this.getNodeParameter('side', i) as 'old' | 'new';
+
+							if (diff.some(({ type }) => ['replace', 'add-prop', 'remove-prop'].includes(type))) {
+								throw new NodeOperationError(
+									this.getNode(),
+									'Variables can only be extracted from a diff computed with Match Siblings By set to Identity',
+									{ itemIndex: i },
+								);
+							}
+
+							const { variables, schema } = extractVariables(diff, { side });
+							const name = baseName(i);
+
+							returnData.push(
+								await toOutput(
+									i,
+									{ variables, schema: schema as unknown as IDataObject },
+									{ variables: `${name}-variables.json`, schema: `${name}-schema.json` },
+								),
+							);
+
+							break;
+						}
+
+						// The files cover every device, build them once
+						if (i > 0) break;
+
+						// The playbook renders the Jinja2 template, so the hosts get its variables
+						const { hosts, template } = templateHosts(
+							await Promise.all(
+								items.map(async (_item, index) => ({
+									name: (this.getNodeParameter('deviceName', index) as string) || `item-${index}`,
+									ast: await getAst(index),
+									diff: await getDiff(index),
+								})),
+							),
+						);
+						const options = {
+							group: this.getNodeParameter('ansibleGroup', i) as string,
+							...(ansibleOutput === 'zip'
+								? {
+										template: this.getNodeParameter('templateFile', i) as string,
+										templateSource: template,
+									}
+								: {}),
+						};
+						const files =
+							ansibleOutput === 'zip'
+								? ansibleProjectFiles(hosts, options)
+								: ansibleVarsFiles(hosts, options);
+						const binary: IBinaryKeyData = {};
+
+						if (ansibleOutput === 'zip') {
+							binary.data = await this.helpers.prepareBinaryData(
+								createZip(files),
+								'ansible.zip',
+								'application/zip',
+							);
+						} else {
+							for (const { path, content } of files) {
+								binary[path.replace(/\W/g, '_')] = await this.helpers.prepareBinaryData(
+									Buffer.from(content),
+									path,
+									'application/yaml',
+								);
+							}
+						}
+
+						returnData.push({
+							json: {
+								...(factorVariables(hosts) as unknown as IDataObject),
+								files: files.map(({ path }) => path),
+							},
+							binary,
+						});
+
+						break;
+					}
+					case 'format': {
+						const ast = await getAst(i);
+						const config = astToConfig(ast, {
+							indent: this.getNodeParameter('indent', i) as number | 'tab',
+							blankLines: this.getNodeParameter('blankLines', i) as number,
+							inactive: this.getNodeParameter('includeInactive', i) as boolean,
+							comments: this.getNodeParameter('includeComments', i) as boolean,
+						});
+
+						returnData.push(await toOutput(i, { config }, { config: `${baseName(i)}.conf` }));
 
 						break;
 					}
 					case 'generateJinja2': {
-						const ast = this.getNodeParameter('ast', i) as JuniperNode;
-						const diff = this.getNodeParameter('diff', i) as JuniperDiff[];
-						const interfacex = this.getNodeParameter('interface', i) as Interface;
-						const jinja2Ast = convertToJinja2Ast(ast, diff, { interface: interfacex });
+						let ast = await getAst(i);
+						const diff = await getDiff(i);
+						let secrets: IDataObject | undefined;
+						if (this.getNodeParameter('redact', i) as boolean) {
+							({ ast, tokens: secrets } = redact(ast, i));
+						}
+						const { ast: jinja2Ast, variables, loops } = generateJinja2(ast, diff);
 						const jinja2String = astToConfig(jinja2Ast).replace(/%};/g, '%}');
+						const verifyTemplate = this.getNodeParameter('verifyTemplate', i) as boolean;
+						const name = baseName(i);
+						const files = { jinja2: `${name}.j2`, variables: `${name}-variables.json` };
+						const json: IDataObject = {
+							jinja2: jinja2String,
+							variables: variables as IDataObject,
+							loops: loops as unknown as IDataObject[],
+							...(secrets ? { secrets } : {}),
+						};
+
+						if (!verifyTemplate) {
+							returnData.push(await toOutput(i, json, files));
+							break;
+						}
+
+						// Render with the same variables and check we get the original config back
+						let verification: IDataObject;
+						try {
+							const rendered = renderJinja2(jinja2String, variables);
+							const { ast: renderedAst, diagnostics } = parseJuniperConfigWithDiagnostics(rendered);
+							const diff = diffAst(ast, renderedAst, { matchBy: 'identity' });
+							verification = {
+								matches: !diff.length && !diagnostics.length,
+								diff: diff as unknown as IDataObject[],
+								diagnostics: diagnostics as unknown as IDataObject[],
+							};
+						} catch (error) {
+							verification = { matches: false, error: error.message };
+						}
+
+						returnData.push(await toOutput(i, { ...json, verification }, files));
+
+						break;
+					}
+					case 'goldenTemplate': {
+						// Every item takes part in one template, build it once
+						if (i > 0) break;
+
+						const devices = await Promise.all(
+							items.map(async (_item, index) => ({
+								name: (this.getNodeParameter('deviceName', index) as string) || `item-${index}`,
+								ast: await getAst(index),
+							})),
+						);
+						let golden: GoldenTemplate;
+						try {
+							golden = generateGoldenTemplate(devices);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+						const jinja2String = astToConfig(golden.ast).replace(/%};/g, '%}');
+						const json: IDataObject = {
+							jinja2: jinja2String,
+							variables: golden.variables as IDataObject,
+							sections: golden.sections as unknown as IDataObject[],
+						};
+
+						// Render every device and check we get its config back
+						if (this.getNodeParameter('verifyTemplate', i) as boolean) {
+							json.verification = Object.fromEntries(
+								devices.map(({ name, ast }) => {
+									try {
+										const rendered = renderJinja2(jinja2String, golden.variables[name]);
+										const { ast: renderedAst, diagnostics } =
+											parseJuniperConfigWithDiagnostics(rendered);
+										const diff = diffAst(ast, renderedAst, { matchBy: 'identity' });
+										return [
+											name,
+											{
+												matches: !diff.length && !diagnostics.length,
+												diff: diff as unknown as IDataObject[],
+												diagnostics: diagnostics as unknown as IDataObject[],
+											},
+										];
+									} catch (error) {
+										return [name, { matches: false, error: error.message }];
+									}
+								}),
+							);
+						}
+
+						returnData.push(
+							await toOutput(i, json, {
+								jinja2: 'golden.j2',
+								variables: 'golden-variables.json',
+							}),
+						);
+
+						break;
+					}
+					case 'checkCompliance': {
+						const ast = await getAst(i);
 
-						returnData.push({ json: { jinja2: jinja2String } });
+						let rules: ComplianceRule[];
+						try {
+							// Typed in rules arrive as a string, rules from an expression as an array
+							const value = this.getNodeParameter('rules', i);
+							rules = validateRules(typeof value === 'string' ? JSON.parse(value) : value);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+
+						returnData.push(
+							await toOutput(i, checkCompliance(ast, rules) as unknown as IDataObject, {
+								results: `${baseName(i)}-compliance.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'analyze': {
+						const ast = await getAst(i);
+
+						returnData.push(
+							await toOutput(i, analyzeConfig(ast) as unknown as IDataObject, {
+								model: `${baseName(i)}-model.json`,
+								issues: `${baseName(i)}-issues.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'checkReferences': {
+						const report = checkReferences(await getAst(i));
+
+						if (this.getNodeParameter('failOnUndefined', i) && !report.valid) {
+							const [{ kind, name, path }] = report.undefinedReferences;
+							throw new NodeOperationError(
+								this.getNode(),
+								`${report.undefinedReferences.length} reference(s) to undefined objects, the first to ${kind} "${name}" at ${path.join(' ')}`,
+								{ itemIndex: i },
+							);
+						}
+
+						returnData.push(
+							await toOutput(i, report as unknown as IDataObject, {
+								objects: `${baseName(i)}-references.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'classifyImpact': {
+						const report = classifyImpact(await getDiff(i), getImpactRules(i));
+
+						returnData.push(
+							await toOutput(i, report as unknown as IDataObject, {
+								changes: `${baseName(i)}-impact.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'normalize': {
+						const ast = normalizeAst(await getAst(i));
+						const name = baseName(i);
+
+						returnData.push(
+							await toOutput(i, { ast, config: astToConfig(ast) } as unknown as IDataObject, {
+								ast: `${name}.ast.json`,
+								config: `${name}.conf`,
+							}),
+						);
+
+						break;
+					}
+					case 'query': {
+						const ast = await getAst(i);
+						const query = this.getNodeParameter('query', i) as string;
+
+						let matches: QueryMatch[];
+						try {
+							matches = queryAst(ast, query);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+
+						for (const { node, absolutePath, path } of matches) {
+							returnData.push({
+								json: { absolutePath, path, node: node as unknown as IDataObject },
+							});
+						}
+
+						break;
+					}
+					case 'redactSecrets': {
+						const { ast, tokens } = redact(await getAst(i), i);
+
+						returnData.push(
+							await toOutput(i, { ast, secrets: tokens } as unknown as IDataObject, {
+								ast: `${baseName(i)}.ast.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'restoreSecrets': {
+						const ast = await getAst(i);
+						const value = this.getNodeParameter('secretTokens', i);
+						let tokens: Record<string, string>;
+						try {
+							tokens = typeof value === 'string' ? JSON.parse(value) : value;
+						} catch (error) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Could not read the secret tokens: ${error.message}`,
+								{ itemIndex: i },
+							);
+						}
+
+						returnData.push(
+							await toOutput(i, { ast: restoreSecrets(ast, tokens) } as unknown as IDataObject, {
+								ast: `${baseName(i)}.ast.json`,
+							}),
+						);
+
+						break;
+					}
+					case 'renderTemplate': {
+						const template = fromBinary(i)
+							? await readFile(i, 'inputBinaryField')
+							: (this.getNodeParameter('template', i) as string);
+
+						let variables: IDataObject;
+						try {
+							// Typed in variables arrive as a string, variables from an expression as an object
+							const value = this.getNodeParameter('variables', i);
+							variables = (typeof value === 'string' ? JSON.parse(value) : value) as IDataObject;
+						} catch (error) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Could not read the variables: ${error.message}`,
+								{ itemIndex: i },
+							);
+						}
+
+						returnData.push(
+							await toOutput(
+								i,
+								{ config: renderJinja2(template, variables) },
+								{ config: `${baseName(i)}.conf` },
+							),
+						);
+
+						break;
+					}
+					case 'applyDiff': {
+						const ast = await getAst(i);
+						const diff = await getDiff(i);
+						const matchBy = this.getNodeParameter('matchBy', i) as DiffOptions['matchBy'];
+						const renderConfig = this.getNodeParameter('renderConfig', i) as boolean;
+						const failOnConflict = this.getNodeParameter('failOnConflict', i) as boolean;
+						const result = applyDiff(ast, diff, { matchBy });
+
+						if (failOnConflict && result.conflicts.length) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`${result.conflicts.length} change(s) could not be applied, the first because: ${result.conflicts[0].message}`,
+								{ itemIndex: i },
+							);
+						}
+
+						const json: IDataObject = { ...result };
+						if (renderConfig) {
+							json.config = astToConfig(result.ast);
+						}
+						returnData.push(
+							await toOutput(i, json, {
+								ast: `${baseName(i)}.ast.json`,
+								config: `${baseName(i)}.conf`,
+							}),
+						);
 
 						break;
 					}
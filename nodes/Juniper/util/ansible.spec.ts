@@ -0,0 +1,116 @@
+import { ansibleProjectFiles, ansibleVarsFiles, factorVariables, templateHosts } from './ansible';
+import { diffAst, parseJuniperConfig } from './juniper';
+import { renderJinja2 } from './template';
+
+const hosts = [
+	{
+		name: 'r1',
+		variables: { system: { ntp: ['10.0.0.1'] }, host_name: 'r1', interfaces: { mtu: 9192 } },
+	},
+	{
+		name: 'r2',
+		variables: { system: { ntp: ['10.0.0.1'] }, host_name: 'r2', interfaces: { mtu: 1500 } },
+	},
+];
+
+describe('ansible', () => {
+	describe('factorVariables', () => {
+		it('moves top-level variables every host shares into the group', () => {
+			expect(factorVariables(hosts)).toEqual({
+				groupVars: { system: { ntp: ['10.0.0.1'] } },
+				hostVars: {
+					r1: { host_name: 'r1', interfaces: { mtu: 9192 } },
+					r2: { host_name: 'r2', interfaces: { mtu: 1500 } },
+				},
+			});
+		});
+
+		it('keeps everything on the host when there is only one', () => {
+			expect(factorVariables(hosts.slice(0, 1)).groupVars).toEqual({});
+		});
+	});
+
+	describe('ansibleVarsFiles', () => {
+		it('writes one YAML file per host and one for the group', () => {
+			const files = ansibleVarsFiles(hosts, { group: 'core' });
+
+			expect(files.map(({ path }) => path)).toEqual([
+				'group_vars/core.yml',
+				'host_vars/r1.yml',
+				'host_vars/r2.yml',
+			]);
+			expect(files[1].content).toBe('---\nhost_name: r1\ninterfaces:\n  mtu: 9192\n');
+		});
+	});
+
+	describe('ansibleProjectFiles', () => {
+		it('adds an inventory and a playbook that renders the template', () => {
+			const [inventory, playbook] = ansibleProjectFiles(hosts, {
+				group: 'core',
+				template: 'core.j2',
+			});
+
+			expect(inventory.content).toBe(`---
+all:
+  children:
+    core:
+      hosts:
+        r1: {}
+        r2: {}
+`);
+			expect(playbook.content).toContain('  hosts: core\n');
+			expect(playbook.content).toContain('        src: templates/core.j2\n');
+		});
+
+		it('exports a template that renders every host from its variables', () => {
+			const configs = ['sw-01', 'sw-02'].map(
+				(name, index) => `system {
+    host-name ${name};
+}
+interfaces {
+    ge-0/0/0 {
+        description uplink-${index};
+    }
+    ge-0/0/1 {
+        description desk-${index};
+    }
+}`,
+			);
+			const [first, second] = configs.map((config) => parseJuniperConfig(config));
+			const { hosts, template } = templateHosts([
+				{ name: 'sw-01', ast: first, diff: diffAst(first, second, { matchBy: 'identity' }) },
+				{ name: 'sw-02', ast: second, diff: diffAst(second, first, { matchBy: 'identity' }) },
+			]);
+			const files = ansibleProjectFiles(hosts, { template: 'access.j2', templateSource: template });
+			const { groupVars, hostVars } = factorVariables(hosts);
+
+			expect(files.map(({ path }) => path)).toContain('templates/access.j2');
+			expect(hostVars['sw-02']).toEqual({
+				system: { host_name: 'sw-02' },
+				interfaces: [
+					{ name: 'ge-0/0/0', description: 'uplink-1' },
+					{ name: 'ge-0/0/1', description: 'desk-1' },
+				],
+			});
+			configs.forEach((config, index) => {
+				const variables = { ...groupVars, ...hostVars[hosts[index].name] };
+				const rendered = parseJuniperConfig(renderJinja2(template, variables));
+
+				expect(diffAst(parseJuniperConfig(config), rendered)).toEqual([]);
+			});
+		});
+
+		it('rejects devices whose templates differ', () => {
+			const [first, second] = ['sw-01', 'sw-02'].map((name) =>
+				parseJuniperConfig(`system {\n    host-name ${name};\n}`),
+			);
+
+			expect(() =>
+				templateHosts([
+					{ name: 'sw-01', ast: first, diff: diffAst(first, second, { matchBy: 'identity' }) },
+					{ name: 'sw-02', ast: second, diff: [] },
+				]),
+			).toThrow('The template of sw-02 differs from the one of sw-01');
+		});
+	});
+});
@@ -0,0 +1,156 @@
+import _ from 'lodash';
+import { generateJinja2 } from './jinja2';
+import { astToConfig, JuniperDiff, JuniperNode } from './juniper';
+import { toYaml } from './yaml';
+import { ZipEntry } from './zip';
+
+/**
+ * Ansible Variable Files
+ *
+ * Lays out template variables the way an Ansible repository keeps them: one `host_vars` file
+ * per device, with the values every device shares factored into a `group_vars` file. Only whole
+ * top-level variables are factored out, because Ansible replaces rather than merges a dictionary
+ * that is defined for both the group and the host.
+ */
+
+export interface AnsibleHost {
+	name: string;
+	variables: Record<string, unknown>;
+}
+
+export interface AnsibleDevice {
+	name: string;
+	ast: JuniperNode;
+	// Differences to another device, whose paths point into `ast`
+	diff: JuniperDiff[];
+}
+
+export interface AnsibleOptions {
+	// Inventory group of the devices, `all` by default
+	group?: string;
+	// File name of the Jinja2 template the playbook renders
+	template?: string;
+	// The template itself, written to templates/ when given
+	templateSource?: string;
+}
+
+/**
+ * The variables of the Jinja2 template of every device, and the template they share
+ *
+ * Devices built from the same pattern, compared with each other, get the same loops and
+ * variables, so one template renders every one of them. Devices whose structure differs get
+ * templates that do not fit each other's variables, and are rejected.
+ * @param {Array} devices - The devices with their ASTs and diffs
+ * @return {Object} - The hosts with the complete variables of their template, and the template
+ */
+export function templateHosts(devices: AnsibleDevice[]): {
+	hosts: AnsibleHost[];
+	template: string;
+} {
+	const templates = devices.map(({ ast, diff }) => {
+		const { ast: templateAst, variables } = generateJinja2(ast, diff);
+		return { template: astToConfig(templateAst).replace(/%};/g, '%}'), variables };
+	});
+
+	const mismatch = templates.findIndex(({ template }) => template !== templates[0].template);
+	if (mismatch !== -1) {
+		throw new Error(
+			`The template of ${devices[mismatch].name} differs from the one of ${devices[0].name}, the devices need the same structure to share a playbook`,
+		);
+	}
+
+	return {
+		hosts: devices.map(({ name }, index) => ({ name, variables: templates[index].variables })),
+		template: templates[0]?.template ?? '',
+	};
+}
+
+export interface AnsibleVars {
+	groupVars: Record<string, unknown>;
+	hostVars: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Split the variables of each device into shared group variables and host variables
+ * @param {Array} hosts - The devices and their variables
+ * @return {Object} - The variables every device has with the same value, and the rest per device
+ */
+export function factorVariables(hosts: AnsibleHost[]): AnsibleVars {
+	const [first, ...rest] = hosts;
+	// A single device has nothing to share
+	const groupVars = rest.length
+		? _.pickBy(first.variables, (value, key) =>
+				rest.every(({ variables }) => key in variables && _.isEqual(variables[key], value)),
+			)
+		: {};
+
+	return {
+		groupVars,
+		hostVars: Object.fromEntries(
+			hosts.map(({ name, variables }) => [name, _.omit(variables, Object.keys(groupVars))]),
+		),
+	};
+}
+
+/**
+ * The group_vars and host_vars files for the devices
+ * @param {Array} hosts - The devices and their variables
+ * @param {Object} options - The inventory group
+ * @return {Array} - The YAML files, group variables first
+ */
+export function ansibleVarsFiles(hosts: AnsibleHost[], options: AnsibleOptions = {}): ZipEntry[] {
+	const { group = 'all' } = options;
+	const { groupVars, hostVars } = factorVariables(hosts);
+
+	return [
+		{ path: `group_vars/${group}.yml`, content: toYaml(groupVars) },
+		...Object.entries(hostVars).map(([name, variables]) => ({
+			path: `host_vars/${name}.yml`,
+			content: toYaml(variables),
+		})),
+	];
+}
+
+/**
+ * The variable files plus an inventory and a playbook that renders the template for each device
+ * @param {Array} hosts - The devices and their variables
+ * @param {Object} options - The inventory group, the template file name and its content
+ * @return {Array} - The files of the project
+ */
+export function ansibleProjectFiles(
+	hosts: AnsibleHost[],
+	options: AnsibleOptions = {},
+): ZipEntry[] {
+	const { group = 'all', template = 'juniper.conf.j2', templateSource } = options;
+	const names = Object.fromEntries(hosts.map(({ name }) => [name, {}]));
+	const inventory =
+		group === 'all'
+			? { all: { hosts: names } }
+			: { all: { children: { [group]: { hosts: names } } } };
+	const playbook = [
+		{
+			name: 'Render Juniper configuration',
+			hosts: group,
+			connection: 'local',
+			gather_facts: false,
+			tasks: [
+				{
+					name: 'Render the configuration from the template',
+					'ansible.builtin.template': {
+						src: `templates/${template}`,
+						dest: '{{ playbook_dir }}/build/{{ inventory_hostname }}.conf',
+					},
+				},
+			],
+		},
+	];
+
+	return [
+		{ path: 'inventory.yml', content: toYaml(inventory) },
+		{ path: 'playbook.yml', content: toYaml(playbook) },
+		...(templateSource === undefined
+			? []
+			: [{ path: `templates/${template}`, content: templateSource }]),
+		...ansibleVarsFiles(hosts, options),
+	];
+}
@@ -0,0 +1,119 @@
+import { renderJunosCompare, renderUnifiedDiff } from './compare';
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+
+const oldConfig = `system {
+    host-name sw-01;
+}
+interfaces {
+    ge-0/0/1 {
+        unit 0 {
+            description access;
+        }
+    }
+}`;
+
+const newConfig = `system {
+    host-name sw-01;
+}
+interfaces {
+    ge-0/0/0 {
+        description uplink;
+    }
+    ge-0/0/1 {
+        unit 0 {
+            description voice;
+        }
+    }
+}`;
+
+describe('compare', () => {
+	describe('renderJunosCompare', () => {
+		it('renders identity differences under their edit hierarchy', () => {
+			const diff = diffAst(parseJuniperConfig(oldConfig), parseJuniperConfig(newConfig), {
+				matchBy: 'identity',
+			});
+
+			expect(renderJunosCompare(diff)).toBe(
+				[
+					'[edit interfaces]',
+					'+   ge-0/0/0 {',
+					'+       description uplink;',
+					'+   }',
+					'[edit interfaces ge-0/0/1 unit 0]',
+					'-   description access;',
+					'+   description voice;',
+				].join('\n'),
+			);
+		});
+
+		it('renders deactivated statements', () => {
+			const diff = diffAst(
+				parseJuniperConfig(oldConfig),
+				parseJuniperConfig(oldConfig.replace('    ge-0/0/1', '    inactive: ge-0/0/1')),
+				{ matchBy: 'identity' },
+			);
+
+			expect(renderJunosCompare(diff)).toBe('[edit interfaces]\n!   inactive: ge-0/0/1');
+		});
+
+		it('keeps the quotes and brackets of modified values', () => {
+			const diff = diffAst(
+				parseJuniperConfig('vlan {\n    description "x y";\n    members [ a b ];\n}'),
+				parseJuniperConfig('vlan {\n    description "x z";\n    members [ a c ];\n}'),
+				{ matchBy: 'identity' },
+			);
+
+			expect(renderJunosCompare(diff).split('\n')).toEqual(
+				expect.arrayContaining([
+					'-   description "x y";',
+					'+   description "x z";',
+					'-   members [ a b ];',
+					'+   members [ a c ];',
+				]),
+			);
+		});
+	});
+
+	describe('renderUnifiedDiff', () => {
+		it('renders hunks with context', () => {
+			const oldText = astToConfig(parseJuniperConfig(oldConfig));
+			const newText = astToConfig(parseJuniperConfig(newConfig));
+
+			expect(
+				renderUnifiedDiff(oldText, newText, { oldName: 'old.conf', newName: 'new.conf' }),
+			).toBe(
+				[
+					'--- old.conf',
+					'+++ new.conf',
+					'@@ -2,9 +2,12 @@',
+					'     host-name sw-01;',
+					' }',
+					' interfaces {',
+					'+    ge-0/0/0 {',
+					'+        description uplink;',
+					'+    }',
+					'     ge-0/0/1 {',
+					'         unit 0 {',
+					'-            description access;',
+					'+            description voice;',
+					'         }',
+					'     }',
+					' }',
+				].join('\n'),
+			);
+		});
+
+		it('diffs long texts that differ throughout', () => {
+			const oldLines = Array.from({ length: 3000 }, (_, index) => `line ${index};`);
+			const newLines = oldLines.map((line, index) => (index % 3 ? line : `changed ${index};`));
+			const lines = renderUnifiedDiff(oldLines.join('\n'), newLines.join('\n')).split('\n');
+
+			expect(lines.filter((line) => /^-line/.test(line))).toHaveLength(1000);
+			expect(lines.filter((line) => /^\+changed/.test(line))).toHaveLength(1000);
+		});
+
+		it('returns an empty string for equal texts', () => {
+			expect(renderUnifiedDiff(oldConfig, oldConfig)).toBe('');
+		});
+	});
+});
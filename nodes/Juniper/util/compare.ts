@@ -0,0 +1,299 @@
+import { astToConfig, createNode, JuniperDiff, JuniperNode } from './juniper';
+
+/**
+ * Text Renderings of Configuration Differences
+ *
+ * Turns identity-mode `JuniperDiff[]` into the `show | compare` format engineers know
+ * from the Junos CLI, and produces classic unified diffs of two configuration texts.
+ */
+
+/**
+ * Print a node in a compare hunk, with the change marker in the first column
+ * @param {Object} node - The node to print
+ * @param {string} marker - '+', '-' or '!'
+ * @return {string[]} - The hunk lines
+ */
+function markNode(node: JuniperNode, marker: string): string[] {
+	return astToConfig(node)
+		.split('\n')
+		.map((line) => `${marker}   ${line}`);
+}
+
+/**
+ * Rebuild a directive or flag from the labels of a `modify` entry
+ */
+function modifiedNode(diff: JuniperDiff, value: unknown): JuniperNode {
+	const name = diff.absolutePath[diff.absolutePath.length - 1];
+	if (diff.nodeType === 'flag' || value === null || value === undefined) {
+		return createNode('flag', name);
+	}
+	// Lists and quoted values are only valid Junos in their brackets and quotes
+	return {
+		...createNode('directive', name, String(value)),
+		...(diff.list ? { list: true } : {}),
+		...(diff.quoted ? { quoted: true } : {}),
+	};
+}
+
+/**
+ * Render identity-mode differences in the Junos `show | compare` format
+ *
+ * Each group of changes is introduced by the `[edit ...]` hierarchy it applies to, followed by
+ * `-` lines for removed statements, `+` lines for added ones and `!` lines for moved,
+ * deactivated or activated ones.
+ * @param {Array} diff - Differences from `diffAst` with `matchBy: 'identity'`
+ * @return {string} - The rendered comparison, empty when there are no differences
+ */
+export function renderJunosCompare(diff: JuniperDiff[]): string {
+	const lines: string[] = [];
+	let currentHeader: string | null = null;
+
+	const hunk = (hierarchy: string[], hunkLines: string[]) => {
+		const header = hierarchy.length ? `[edit ${hierarchy.join(' ')}]` : '[edit]';
+		if (header !== currentHeader) {
+			lines.push(header);
+			currentHeader = header;
+		}
+		lines.push(...hunkLines);
+	};
+
+	for (const entry of diff) {
+		const hierarchy = entry.absolutePath.slice(0, -1);
+
+		switch (entry.type) {
+			case 'add':
+				hunk(hierarchy, markNode(entry.newValue as JuniperNode, '+'));
+				break;
+			case 'remove':
+				hunk(hierarchy, markNode(entry.oldValue as JuniperNode, '-'));
+				break;
+			case 'move': {
+				const label = entry.absolutePath[entry.absolutePath.length - 1];
+				hunk(hierarchy, [
+					`!   ${label} /* moved from position ${entry.oldIndex} to ${entry.newIndex} */`,
+				]);
+				break;
+			}
+			case 'modify': {
+				const label = entry.absolutePath[entry.absolutePath.length - 1];
+
+				if (entry.property === 'inactive') {
+					hunk(hierarchy, [`!   ${entry.newValue ? 'inactive' : 'active'}: ${label}`]);
+				} else if (entry.property === 'value') {
+					hunk(hierarchy, [
+						...markNode(modifiedNode(entry, entry.oldValue), '-'),
+						...markNode(modifiedNode(entry, entry.newValue), '+'),
+					]);
+				} else {
+					hunk(hierarchy, [`!   ${label} /* ${entry.property} changed */`]);
+				}
+				break;
+			}
+		}
+	}
+
+	return lines.join('\n');
+}
+
+interface LineChange {
+	type: ' ' | '-' | '+';
+	line: string;
+}
+
+/**
+ * Where a shortest edit script between two ranges crosses its middle, found by searching
+ * forwards from the start and backwards from the end until the searches meet (Myers' linear
+ * space refinement), so only the current frontiers are kept
+ * @param {string[]} a - The old lines
+ * @param {number} aStart - The start of the old range
+ * @param {number} aEnd - The end of the old range
+ * @param {string[]} b - The new lines
+ * @param {number} bStart - The start of the new range
+ * @param {number} bEnd - The end of the new range
+ * @return {number[]} - [x, y], the offsets into both ranges to split them at
+ */
+function middlePoint(
+	a: string[],
+	aStart: number,
+	aEnd: number,
+	b: string[],
+	bStart: number,
+	bEnd: number,
+): [number, number] {
+	const [n, m] = [aEnd - aStart, bEnd - bStart];
+	const delta = n - m;
+	const odd = delta % 2 !== 0;
+	const maxD = Math.ceil((n + m) / 2);
+	const offset = maxD;
+	// The furthest x reached on each diagonal k = x - y, -1 while unreached
+	const forward = new Array<number>(2 * maxD + 2).fill(-1);
+	const backward = new Array<number>(2 * maxD + 2).fill(-1);
+	forward[offset + 1] = 0;
+	backward[offset + 1] = 0;
+	// Diagonals that ran past the end of either range are not extended again
+	let [forwardStart, forwardEnd, backwardStart, backwardEnd] = [0, 0, 0, 0];
+
+	const furthest = (frontier: number[], k: number, d: number) =>
+		k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+			? frontier[offset + k + 1]
+			: frontier[offset + k - 1] + 1;
+
+	for (let d = 0; d < maxD; d++) {
+		for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+			let x = furthest(forward, k, d);
+			let y = x - k;
+			while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+				x++;
+				y++;
+			}
+			forward[offset + k] = x;
+
+			if (x > n) {
+				forwardEnd += 2;
+			} else if (y > m) {
+				forwardStart += 2;
+			} else if (odd) {
+				const reached = backward[offset + delta - k] ?? -1;
+				if (reached !== -1 && x >= n - reached) return [x, y];
+			}
+		}
+
+		for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+			let x = furthest(backward, k, d);
+			let y = x - k;
+			while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+				x++;
+				y++;
+			}
+			backward[offset + k] = x;
+
+			if (x > n) {
+				backwardEnd += 2;
+			} else if (y > m) {
+				backwardStart += 2;
+			} else if (!odd) {
+				const reached = forward[offset + delta - k] ?? -1;
+				if (reached !== -1 && reached >= n - x) return [reached, reached - delta + k];
+			}
+		}
+	}
+
+	// Nothing in common, replace the whole range
+	return [n, 0];
+}
+
+/**
+ * Shortest line edit script between two texts (Myers' algorithm)
+ * @param {string[]} a - The old lines
+ * @param {string[]} b - The new lines
+ * @return {Array} - Every line of both texts, marked as kept, removed or added
+ */
+function diffLines(a: string[], b: string[]): LineChange[] {
+	const changes: LineChange[] = [];
+
+	const diffRange = (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+		// Lines both ranges start or end with are kept
+		let prefix = 0;
+		while (
+			aStart + prefix < aEnd &&
+			bStart + prefix < bEnd &&
+			a[aStart + prefix] === b[bStart + prefix]
+		) {
+			prefix++;
+		}
+		let suffix = 0;
+		while (
+			aEnd - suffix > aStart + prefix &&
+			bEnd - suffix > bStart + prefix &&
+			a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]
+		) {
+			suffix++;
+		}
+
+		for (let i = aStart; i < aStart + prefix; i++) changes.push({ type: ' ', line: a[i] });
+
+		const [aFrom, aTo, bFrom, bTo] = [
+			aStart + prefix,
+			aEnd - suffix,
+			bStart + prefix,
+			bEnd - suffix,
+		];
+		if (aFrom === aTo || bFrom === bTo) {
+			for (let i = aFrom; i < aTo; i++) changes.push({ type: '-', line: a[i] });
+			for (let i = bFrom; i < bTo; i++) changes.push({ type: '+', line: b[i] });
+		} else {
+			const [x, y] = middlePoint(a, aFrom, aTo, b, bFrom, bTo);
+			diffRange(aFrom, aFrom + x, bFrom, bFrom + y);
+			diffRange(aFrom + x, aTo, bFrom + y, bTo);
+		}
+
+		for (let i = aEnd - suffix; i < aEnd; i++) changes.push({ type: ' ', line: a[i] });
+	};
+
+	diffRange(0, a.length, 0, b.length);
+	return changes;
+}
+
+export interface UnifiedDiffOptions {
+	oldName?: string;
+	newName?: string;
+	context?: number;
+}
+
+/**
+ * Render a classic unified diff of two configuration texts
+ * @param {string} oldText - The original configuration
+ * @param {string} newText - The new configuration
+ * @param {Object} options - File names for the header and the number of context lines
+ * @return {string} - The unified diff, empty when the texts are equal
+ */
+export function renderUnifiedDiff(
+	oldText: string,
+	newText: string,
+	options: UnifiedDiffOptions = {},
+): string {
+	const { oldName = 'a', newName = 'b', context = 3 } = options;
+	const changes = diffLines(oldText.split('\n'), newText.split('\n'));
+
+	if (changes.every(({ type }) => type === ' ')) return '';
+
+	const lines = [`--- ${oldName}`, `+++ ${newName}`];
+	let index = 0;
+
+	while (index < changes.length) {
+		// Find the next change and open a hunk a few lines before it
+		while (index < changes.length && changes[index].type === ' ') index++;
+		if (index >= changes.length) break;
+
+		const start = Math.max(0, index - context);
+		let end = index;
+
+		// Extend the hunk while changes are closer than twice the context
+		while (end < changes.length) {
+			if (changes[end].type !== ' ') {
+				end++;
+				continue;
+			}
+			let next = end;
+			while (next < changes.length && changes[next].type === ' ') next++;
+			if (next >= changes.length || next - end > context * 2) {
+				end = Math.min(changes.length, end + context);
+				break;
+			}
+			end = next;
+		}
+
+		const before = changes.slice(0, start);
+		const slice = changes.slice(start, end);
+		const oldStart = before.filter(({ type }) => type !== '+').length + 1;
+		const newStart = before.filter(({ type }) => type !== '-').length + 1;
+		const oldCount = slice.filter(({ type }) => type !== '+').length;
+		const newCount = slice.filter(({ type }) => type !== '-').length;
+
+		lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		lines.push(...slice.map(({ type, line }) => `${type}${line}`));
+		index = end;
+	}
+
+	return lines.join('\n');
+}
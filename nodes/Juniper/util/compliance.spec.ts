@@ -0,0 +1,96 @@
+import { checkCompliance, validateRules } from './compliance';
+import { parseJuniperConfig } from './juniper';
+
+const config = `system {
+    services {
+        ssh;
+        telnet;
+    }
+    ntp {
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            description uplink;
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family inet;
+        }
+        unit 100 {
+            family inet;
+        }
+    }
+}
+snmp {
+    community public {
+        authorization read-only;
+    }
+    location lab1;
+}`;
+
+describe('compliance', () => {
+	describe('checkCompliance', () => {
+		const ast = parseJuniperConfig(config);
+
+		it('evaluates every kind of constraint', () => {
+			const report = checkCompliance(ast, [
+				{ id: 'ntp', path: 'system/ntp/server', minCount: 2 },
+				{ id: 'telnet', path: 'system/services/telnet', mustNotExist: true },
+				{ id: 'ssh', path: 'system/services/ssh', mustExist: true },
+				{ id: 'unit-description', path: 'interfaces/*/unit', require: 'description' },
+				{ id: 'public', path: 'snmp/community[name=public]', mustNotExist: true },
+				{
+					id: 'location',
+					path: 'snmp/location',
+					valuePattern: '^[a-z]+-\\d+$',
+					severity: 'warning',
+				},
+			]);
+
+			expect(
+				report.results.map(({ id, passed, violations }) => [
+					id,
+					passed,
+					violations.map(({ path }) => path.join(' ')),
+				]),
+			).toEqual([
+				['ntp', false, ['']],
+				['telnet', false, ['system services telnet']],
+				['ssh', true, []],
+				['unit-description', false, ['interfaces ge-0/0/1 unit 0', 'interfaces ge-0/0/1 unit 100']],
+				['public', false, ['snmp community public']],
+				['location', false, ['snmp location']],
+			]);
+			expect(report.results[0].violations[0].message).toBe(
+				'system/ntp/server is configured 1 time(s), at least 2 required',
+			);
+			expect(report.compliant).toBe(false);
+			expect(report.summary).toEqual({ rules: 6, passed: 1, failed: 5 });
+		});
+
+		it('is compliant when only warnings fail', () => {
+			const report = checkCompliance(ast, [
+				{ path: 'snmp/location', forbiddenValuePattern: 'lab', severity: 'warning' },
+				{ path: 'snmp/community', forbid: 'authorization read-write' },
+			]);
+
+			expect(report.compliant).toBe(true);
+			expect(report.results.map(({ passed }) => passed)).toEqual([false, true]);
+		});
+	});
+
+	describe('validateRules', () => {
+		it('rejects malformed rules', () => {
+			expect(() => validateRules({})).toThrow('Rules must be an array');
+			expect(() => validateRules([{ mustExist: true }])).toThrow('Rule 1 needs a "path"');
+			expect(() => validateRules([{ path: 'system' }])).toThrow('Rule 1 needs at least one of');
+			expect(() => validateRules([{ id: 'x', path: 'a', valuePattern: '(' }])).toThrow(
+				'Rule x "valuePattern"',
+			);
+		});
+	});
+});
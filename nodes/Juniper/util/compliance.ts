@@ -0,0 +1,216 @@
+import { JuniperNode } from './juniper';
+import { parseQuery, queryAst } from './query';
+
+/**
+ * Configuration Compliance
+ *
+ * Checks an AST against declarative rules. Each rule selects statements with a path query
+ * (see `queryAst`) and constrains them:
+ *
+ * - `mustExist` / `mustNotExist` - whether the path may match at all
+ * - `minCount` / `maxCount` - how many statements it may match
+ * - `valuePattern` / `forbiddenValuePattern` - regular expressions for the matched values
+ * - `require` / `forbid` - a query, relative to each match, that must or must not match
+ *
+ * For example `{ "path": "interfaces/*\/unit", "require": "description" }` requires a
+ * description on every unit.
+ */
+
+export interface ComplianceRule {
+	id?: string;
+	description?: string;
+	// Failed "error" rules make the configuration non-compliant, the others are reported only
+	severity?: 'error' | 'warning' | 'info';
+	path: string;
+	mustExist?: boolean;
+	mustNotExist?: boolean;
+	minCount?: number;
+	maxCount?: number;
+	valuePattern?: string;
+	forbiddenValuePattern?: string;
+	require?: string;
+	forbid?: string;
+}
+
+export interface ComplianceViolation {
+	// Labels of the offending statement, empty when the rule is about a missing statement
+	path: string[];
+	message: string;
+}
+
+export interface RuleResult {
+	id: string;
+	description: string;
+	severity: NonNullable<ComplianceRule['severity']>;
+	passed: boolean;
+	matches: number;
+	violations: ComplianceViolation[];
+}
+
+export interface ComplianceReport {
+	compliant: boolean;
+	summary: {
+		rules: number;
+		passed: number;
+		failed: number;
+	};
+	results: RuleResult[];
+}
+
+const SEVERITIES = ['error', 'warning', 'info'];
+const CONSTRAINTS = [
+	'mustExist',
+	'mustNotExist',
+	'minCount',
+	'maxCount',
+	'valuePattern',
+	'forbiddenValuePattern',
+	'require',
+	'forbid',
+];
+
+/**
+ * Check that rules are well formed before evaluating any of them
+ * @param {*} rules - The rules, usually parsed from JSON
+ * @return {Array} - The same rules, typed
+ */
+export function validateRules(rules: unknown): ComplianceRule[] {
+	if (!Array.isArray(rules)) throw new Error('Rules must be an array');
+
+	rules.forEach((rule, index) => {
+		const name = `Rule ${rule?.id ?? index + 1}`;
+
+		if (typeof rule !== 'object' || rule === null) throw new Error(`${name} must be an object`);
+		if (typeof rule.path !== 'string') throw new Error(`${name} needs a "path"`);
+		if (!CONSTRAINTS.some((constraint) => rule[constraint] !== undefined)) {
+			throw new Error(`${name} needs at least one of ${CONSTRAINTS.join(', ')}`);
+		}
+		if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+			throw new Error(`${name} has an unknown severity "${rule.severity}"`);
+		}
+
+		for (const key of ['minCount', 'maxCount']) {
+			if (rule[key] !== undefined && !(Number.isInteger(rule[key]) && rule[key] >= 0)) {
+				throw new Error(`${name} "${key}" must be a non-negative integer`);
+			}
+		}
+
+		for (const key of ['path', 'require', 'forbid']) {
+			if (rule[key] === undefined) continue;
+			try {
+				parseQuery(rule[key]);
+			} catch (error) {
+				throw new Error(`${name} "${key}": ${error.message}`);
+			}
+		}
+
+		for (const key of ['valuePattern', 'forbiddenValuePattern']) {
+			if (rule[key] === undefined) continue;
+			try {
+				new RegExp(rule[key]);
+			} catch (error) {
+				throw new Error(`${name} "${key}": ${error.message}`);
+			}
+		}
+	});
+
+	return rules as ComplianceRule[];
+}
+
+/**
+ * Evaluate one rule against an AST
+ * @param {Object} ast - The configuration
+ * @param {Object} rule - The rule
+ * @return {Array} - The violations, empty when the rule passes
+ */
+function evaluateRule(ast: JuniperNode, rule: ComplianceRule) {
+	const matches = queryAst(ast, rule.path);
+	const violations: ComplianceViolation[] = [];
+	const count = matches.length;
+
+	if (rule.mustExist && !count) {
+		violations.push({ path: [], message: `${rule.path} is not configured` });
+	}
+	if (rule.mustNotExist) {
+		matches.forEach(({ absolutePath }) =>
+			violations.push({ path: absolutePath, message: `${absolutePath.join(' ')} is forbidden` }),
+		);
+	}
+	if (rule.minCount !== undefined && count < rule.minCount) {
+		violations.push({
+			path: [],
+			message: `${rule.path} is configured ${count} time(s), at least ${rule.minCount} required`,
+		});
+	}
+	if (rule.maxCount !== undefined && count > rule.maxCount) {
+		matches.slice(rule.maxCount).forEach(({ absolutePath }) =>
+			violations.push({
+				path: absolutePath,
+				message: `${rule.path} is configured ${count} time(s), at most ${rule.maxCount} allowed`,
+			}),
+		);
+	}
+
+	for (const { node, absolutePath } of matches) {
+		const label = absolutePath.join(' ');
+		const value = node.value ?? '';
+
+		if (rule.valuePattern !== undefined && !new RegExp(rule.valuePattern).test(value)) {
+			violations.push({
+				path: absolutePath,
+				message: `${label} value "${value}" does not match ${rule.valuePattern}`,
+			});
+		}
+		if (
+			rule.forbiddenValuePattern !== undefined &&
+			new RegExp(rule.forbiddenValuePattern).test(value)
+		) {
+			violations.push({
+				path: absolutePath,
+				message: `${label} value "${value}" matches ${rule.forbiddenValuePattern}`,
+			});
+		}
+		if (rule.require !== undefined && !queryAst(node, rule.require).length) {
+			violations.push({ path: absolutePath, message: `${label} has no ${rule.require}` });
+		}
+		if (rule.forbid !== undefined) {
+			queryAst(node, rule.forbid).forEach((match) => {
+				const path = [...absolutePath, ...match.absolutePath];
+				violations.push({ path, message: `${path.join(' ')} is forbidden` });
+			});
+		}
+	}
+
+	return { matches: count, violations };
+}
+
+/**
+ * Check an AST against compliance rules
+ * @param {Object} ast - The configuration to check
+ * @param {Array} rules - The rules, validated with `validateRules`
+ * @return {Object} - Whether no error rule failed, and the result of every rule
+ */
+export function checkCompliance(ast: JuniperNode, rules: ComplianceRule[]): ComplianceReport {
+	const results = rules.map((rule, index): RuleResult => {
+		const { matches, violations } = evaluateRule(ast, rule);
+		return {
+			id: rule.id ?? `rule-${index + 1}`,
+			description: rule.description ?? rule.path,
+			severity: rule.severity ?? 'error',
+			passed: !violations.length,
+			matches,
+			violations,
+		};
+	});
+	const failed = results.filter(({ passed }) => !passed);
+
+	return {
+		compliant: !failed.some(({ severity }) => severity === 'error'),
+		summary: {
+			rules: results.length,
+			passed: results.length - failed.length,
+			failed: failed.length,
+		},
+		results,
+	};
+}
@@ -0,0 +1,97 @@
+import { ABSENT, driftReport } from './drift';
+import { parseJuniperConfig } from './juniper';
+
+const baseline = `system {
+    ntp {
+        server 10.0.0.1;
+    }
+    syslog {
+        host 10.0.0.9;
+    }
+}
+snmp {
+    location HQ;
+}`;
+
+const devices = [
+	{ name: 'sw-01', config: baseline },
+	{ name: 'sw-02', config: baseline.replace('10.0.0.1', '10.0.0.2') },
+	{
+		name: 'sw-03',
+		config: baseline.replace('10.0.0.1', '10.0.0.2').replace('location HQ', 'location DC'),
+	},
+	{ name: 'sw-04', config: baseline.replace('        host 10.0.0.9;\n', '') },
+];
+
+describe('drift', () => {
+	describe('driftReport', () => {
+		const report = driftReport(
+			parseJuniperConfig(baseline),
+			devices.map(({ name, config }) => ({ name, ast: parseJuniperConfig(config) })),
+		);
+
+		it('reports the drifting hierarchies of every device', () => {
+			expect(report.devices.map(({ device, paths }) => [device, paths])).toEqual([
+				['sw-01', []],
+				['sw-02', ['system ntp server']],
+				['sw-03', ['system ntp server', 'snmp location']],
+				['sw-04', ['system syslog host']],
+			]);
+			expect(report.devices[3].compare).toBe('[edit system syslog]\n-   host 10.0.0.9;');
+		});
+
+		it('summarizes the drift across the fleet', () => {
+			expect(report.summary).toEqual({
+				devices: 4,
+				drifted: 3,
+				inSync: ['sw-01'],
+				paths: [
+					{
+						path: 'system ntp server',
+						baseline: '10.0.0.1',
+						deviceCount: 2,
+						values: { '10.0.0.2': ['sw-02', 'sw-03'] },
+					},
+					{
+						path: 'snmp location',
+						baseline: 'HQ',
+						deviceCount: 1,
+						values: { DC: ['sw-03'] },
+					},
+					{
+						path: 'system syslog host',
+						baseline: '10.0.0.9',
+						deviceCount: 1,
+						values: { [ABSENT]: ['sw-04'] },
+					},
+				],
+			});
+		});
+
+		it('takes the baseline of a path from the baseline itself', () => {
+			const servers = `system {
+    name-server 10.0.0.1;
+    name-server 10.0.0.2;
+}`;
+			const { summary } = driftReport(parseJuniperConfig(servers), [
+				{
+					name: 'sw-01',
+					ast: parseJuniperConfig(servers.replace('    name-server 10.0.0.2;\n', '')),
+				},
+				{
+					name: 'sw-02',
+					ast: parseJuniperConfig(servers.replace('}', '    name-server 10.0.0.3;\n}')),
+				},
+			]);
+
+			expect(summary.paths).toEqual([
+				{
+					path: 'system name-server',
+					baseline: '10.0.0.1, 10.0.0.2',
+					deviceCount: 2,
+					values: { [ABSENT]: ['sw-01'], '10.0.0.3': ['sw-02'] },
+				},
+			]);
+		});
+	});
+});
@@ -0,0 +1,175 @@
+import _ from 'lodash';
+import { renderJunosCompare } from './compare';
+import { diffAst, formatValue, JuniperDiff, JuniperNode, nodeLabel } from './juniper';
+import { findNodeByLabels } from './patch';
+
+/**
+ * Fleet Drift Report
+ *
+ * Compares many device configurations against one golden baseline. Every device gets the
+ * hierarchies where it departs from the baseline, and the fleet summary groups the same
+ * departures across devices, with the values seen on each device.
+ */
+
+export interface DriftDevice {
+	name: string;
+	ast: JuniperNode;
+}
+
+export interface DeviceDrift {
+	device: string;
+	// Statements that differ from the baseline, e.g. "system host-name"
+	paths: string[];
+	// The differences in Junos `show | compare` format, from the baseline to the device
+	compare: string;
+	diff: JuniperDiff[];
+}
+
+export interface DriftPath {
+	path: string;
+	baseline: string;
+	deviceCount: number;
+	// Devices grouped by the value they have at this path
+	values: Record<string, string[]>;
+}
+
+export interface DriftReport {
+	summary: {
+		devices: number;
+		drifted: number;
+		inSync: string[];
+		paths: DriftPath[];
+	};
+	devices: DeviceDrift[];
+}
+
+export const ABSENT = '(absent)';
+export const PRESENT = '(present)';
+
+/**
+ * How a statement looks in the summary: its value, or whether it is configured at all
+ */
+function describeNode(node: JuniperNode | undefined): string {
+	if (!node) return ABSENT;
+	if (node.type === 'directive') return formatValue(node);
+	return PRESENT;
+}
+
+/**
+ * How a tag or a value of a statement looks in the summary
+ */
+function describeProperty(property: string, value: unknown): string {
+	if (property === 'inactive') return value ? 'inactive' : 'active';
+	return value === undefined || value === null ? ABSENT : String(value);
+}
+
+/**
+ * The device side of a single difference
+ * @param {Object} change - A difference computed with identity matching
+ * @return {string|null} - The description, or null if it is not a drift
+ */
+function describeChange(change: JuniperDiff): string | null {
+	switch (change.type) {
+		case 'add':
+			return describeNode(change.newValue as JuniperNode);
+		case 'remove':
+			return ABSENT;
+		case 'move':
+			return `position ${change.newIndex}`;
+		case 'modify':
+			return describeProperty(change.property, change.newValue);
+		default:
+			return null;
+	}
+}
+
+/**
+ * What the baseline has where a difference is, the same for every device that drifts there
+ *
+ * Directives that share a name also share a path, so all of them are described.
+ * @param {Object} baseline - The baseline AST
+ * @param {Object} change - A difference computed with identity matching
+ * @return {string} - The description of every statement at that path
+ */
+function describeBaseline(baseline: JuniperNode, change: JuniperDiff): string {
+	const label = change.absolutePath[change.absolutePath.length - 1];
+	const parent = findNodeByLabels(baseline, change.absolutePath.slice(0, -1));
+	const nodes = change.absolutePath.length
+		? parent?.children.filter((child) => nodeLabel(child) === label) ?? []
+		: [baseline];
+	if (!nodes.length) return ABSENT;
+
+	return nodes
+		.map((node) => {
+			if (change.type === 'move') return `position ${parent!.children.indexOf(node)}`;
+			if (change.type === 'modify' && change.property !== 'value') {
+				// @ts-ignore
+				return describeProperty(change.property, node[change.property]);
+			}
+			return describeNode(node);
+		})
+		.join(', ');
+}
+
+/**
+ * Label of a difference in the summary, tag changes get their own path
+ */
+function changePath(change: JuniperDiff): string {
+	const path = change.absolutePath.join(' ');
+	if (change.type === 'move') return `${path} (order)`;
+	if (change.type === 'modify' && change.property !== 'value') {
+		return `${path} (${change.property})`;
+	}
+	return path;
+}
+
+/**
+ * Compare every device configuration against a golden baseline
+ * @param {Object} baseline - The AST every device should match
+ * @param {Array} devices - The device names and ASTs
+ * @return {Object} - The drift of every device and the fleet-wide summary
+ */
+export function driftReport(baseline: JuniperNode, devices: DriftDevice[]): DriftReport {
+	const paths = new Map<string, DriftPath>();
+
+	const deviceDrifts = devices.map(({ name, ast }) => {
+		const diff = diffAst(baseline, ast, { matchBy: 'identity' });
+		const devicePaths: string[] = [];
+
+		for (const change of diff) {
+			const value = describeChange(change);
+			if (value === null) continue;
+
+			const path = changePath(change);
+			const entry = paths.get(path) ?? {
+				path,
+				baseline: describeBaseline(baseline, change),
+				deviceCount: 0,
+				values: {},
+			};
+			entry.values[value] = _.union(entry.values[value] ?? [], [name]);
+			paths.set(path, entry);
+			devicePaths.push(path);
+		}
+
+		_.uniq(devicePaths).forEach((path) => paths.get(path)!.deviceCount++);
+
+		return {
+			device: name,
+			paths: _.uniq(devicePaths),
+			compare: renderJunosCompare(diff),
+			diff,
+		};
+	});
+
+	return {
+		summary: {
+			devices: devices.length,
+			drifted: deviceDrifts.filter(({ paths }) => paths.length).length,
+			inSync: deviceDrifts.filter(({ paths }) => !paths.length).map(({ device }) => device),
+			// Most widespread drift first
+			paths: _.orderBy([...paths.values()], ['deviceCount', 'path'], ['desc', 'asc']),
+		},
+		devices: deviceDrifts,
+	};
+}
@@ -0,0 +1,161 @@
+import { generateGoldenTemplate } from './golden';
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { renderJinja2 } from './template';
+
+const pattern = `system {
+    # Managed by the fabric team
+    host-name sw-01;
+    ntp {
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/1 {
+        description "Desk 1";
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ USERS VOICE ];
+                }
+            }
+        }
+    }
+    ge-0/0/2 {
+        unit 0 {
+            family ethernet-switching;
+        }
+    }
+}
+vlans {
+    USERS {
+        vlan-id 10;
+    }
+}`;
+
+const devices = [
+	{ name: 'sw-01', config: pattern },
+	{
+		name: 'sw-02',
+		config: pattern
+			.replace('sw-01', 'sw-02')
+			.replace('"Desk 1"', '"Desk 2"')
+			.replace('USERS VOICE', 'USERS')
+			.replace('vlan-id 10', 'vlan-id 20')
+			.replace('    # Managed by the fabric team\n', ''),
+	},
+	{
+		name: 'sw-03',
+		config: pattern
+			.replace('sw-01', 'sw-03')
+			.replace('        description "Desk 1";\n', '')
+			.replace(/ {4}ge-0\/0\/2 \{\n[\s\S]*?\n {4}\}\n/, '')
+			.replace('ntp {', 'inactive: ntp {'),
+	},
+].map(({ name, config }) => ({ name, ast: parseJuniperConfig(config) }));
+
+describe('golden', () => {
+	describe('generateGoldenTemplate', () => {
+		const { ast, variables, sections } = generateGoldenTemplate(devices);
+		const template = astToConfig(ast).replace(/%};/g, '%}');
+
+		it('turns values that differ into variables', () => {
+			expect(template).toContain('host-name {{system.host_name}};');
+			expect(template).toContain('description "{{interfaces.ge_0_0_1.description}}";');
+			expect(template).toContain('members [ {{interfaces.ge_0_0_1.unit._0');
+			expect(template).toContain('vlan-id {{vlans.USERS.vlan_id}};');
+			expect(variables['sw-02']).toEqual({
+				system: { host_name: 'sw-02', ntp: {} },
+				interfaces: {
+					ge_0_0_1: {
+						description: 'Desk 2',
+						unit: {
+							_0: { family: { ethernet_switching: { vlan: { members: 'USERS' } } } },
+						},
+					},
+					ge_0_0_2: {},
+				},
+				vlans: { USERS: { vlan_id: '20' } },
+			});
+		});
+
+		it('wraps statements only some devices have in sections', () => {
+			expect(sections).toEqual([
+				{
+					condition: 'system.ntp is defined',
+					hierarchy: ['system', 'ntp'],
+					devices: ['sw-01', 'sw-02'],
+				},
+				{
+					condition: 'system.ntp_2 is defined',
+					hierarchy: ['system', 'ntp'],
+					devices: ['sw-03'],
+				},
+				{
+					condition: 'interfaces.ge_0_0_1.description is defined',
+					hierarchy: ['interfaces', 'ge-0/0/1', 'description'],
+					devices: ['sw-01', 'sw-02'],
+				},
+				{
+					condition: 'interfaces.ge_0_0_2 is defined',
+					hierarchy: ['interfaces', 'ge-0/0/2'],
+					devices: ['sw-01', 'sw-02'],
+				},
+			]);
+			expect(template).toContain('{% if interfaces.ge_0_0_2 is defined %}');
+			expect(variables['sw-03']).toMatchObject({ system: { ntp_2: {} }, interfaces: {} });
+		});
+
+		it('keeps only the comments every device has', () => {
+			expect(template).not.toContain('# Managed by the fabric team');
+		});
+
+		it('renders back to every device', () => {
+			devices.forEach(({ name, ast: deviceAst }) => {
+				const rendered = parseJuniperConfig(renderJinja2(template, variables[name]));
+				expect(diffAst(deviceAst, rendered, { matchBy: 'identity' })).toEqual([]);
+			});
+		});
+
+		it('keeps the order of every device', () => {
+			const result = generateGoldenTemplate([
+				{ name: 'x', ast: parseJuniperConfig(`system {\n    a;\n    b;\n}`) },
+				{ name: 'y', ast: parseJuniperConfig(`system {\n    b;\n    a;\n}`) },
+			]);
+			const source = astToConfig(result.ast).replace(/%};/g, '%}');
+
+			expect(renderJinja2(source, result.variables.x).replace(/\s+/g, ' ').trim()).toBe(
+				'system { a; b; }',
+			);
+			expect(renderJinja2(source, result.variables.y).replace(/\s+/g, ' ').trim()).toBe(
+				'system { b; a; }',
+			);
+		});
+
+		it('turns keyed values that differ into variables', () => {
+			const device = (address: string) =>
+				parseJuniperConfig(
+					`interfaces { ge-0/0/0 { unit 0 { family inet { address ${address}; } } } }`,
+				);
+			const result = generateGoldenTemplate([
+				{ name: 'x', ast: device('10.0.0.1/31') },
+				{ name: 'y', ast: device('10.0.0.3/31') },
+			]);
+
+			expect(astToConfig(result.ast)).toContain(
+				'address {{interfaces.ge_0_0_0.unit._0.family.inet.address}};',
+			);
+			expect(result.sections).toEqual([]);
+			expect(result.variables.y).toEqual({
+				interfaces: {
+					ge_0_0_0: { unit: { _0: { family: { inet: { address: '10.0.0.3/31' } } } } },
+				},
+			});
+		});
+
+		it('needs unique device names', () => {
+			expect(() => generateGoldenTemplate([devices[0], devices[0]])).toThrow(
+				'Device names must be unique, "sw-01" is repeated',
+			);
+		});
+	});
+});
@@ -0,0 +1,269 @@
+import _ from 'lodash';
+import { statementKey } from './groups';
+import { createNode, JuniperNode, nodeLabel } from './juniper';
+import { labelKeys } from './variables';
+
+/**
+ * Golden Templates
+ *
+ * Infers one Jinja2 template from the configurations of devices built from the same pattern,
+ * along with the variables that render it back to each device. The statements of all devices
+ * are aligned level by level, matching blocks on what they configure as group inheritance does
+ * and leaves by name, and keeping the order every device has them in:
+ *
+ * - a value that differs between devices becomes a variable, e.g. `{{system.host_name}}`
+ * - a statement only some devices have is wrapped in `{% if ... is defined %}`, its variable is
+ *   `true`, or for a block the object holding the variables below it
+ *
+ * Variables are keyed by the hierarchy they live in, as extracted variables are. Comments are
+ * kept where every device has the same ones and left out elsewhere.
+ */
+
+export interface GoldenDevice {
+	name: string;
+	ast: JuniperNode;
+}
+
+export interface GoldenSection {
+	// Jinja2 test of the section, e.g. "interfaces.ge_0_0_47 is defined"
+	condition: string;
+	// Labels of the hierarchy down to the statement
+	hierarchy: string[];
+	// The devices that have the statement
+	devices: string[];
+}
+
+export interface GoldenTemplate {
+	ast: JuniperNode;
+	// The variables of every device, by device name
+	variables: Record<string, Record<string, unknown>>;
+	sections: GoldenSection[];
+}
+
+/**
+ * The statement a node holds in every device, the nodes of devices without it are undefined
+ */
+interface Slot {
+	key: string;
+	nodes: Array<JuniperNode | undefined>;
+}
+
+const COMMENT_PROPERTIES = ['comments', 'trailingComment', 'closingComments'] as const;
+
+/**
+ * What statements must share to be aligned: the statement, and everything that is rendered
+ * around its value. Leaves such as `address` are aligned by name and then by position, so a
+ * value that differs becomes a variable rather than a statement of its own.
+ */
+function alignKey(node: JuniperNode): string {
+	const { type, inactive, protect, quoted, list, annotations } = node;
+	const statement = type === 'directive' ? `leaf|${node.name}` : statementKey(node);
+	return JSON.stringify([statement, type, inactive, protect, quoted, list, annotations]);
+}
+
+/**
+ * Matching positions of a longest common subsequence of two key sequences
+ * @param {string[]} a - The keys of the slots aligned so far
+ * @param {string[]} b - The keys of the children of the next device
+ * @return {Array} - [aIndex, bIndex] pairs, in order
+ */
+function commonSubsequence(a: string[], b: string[]): number[][] {
+	// Devices of one pattern mostly agree, only the part in between needs the full comparison
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let end = 0;
+	while (
+		end < a.length - start &&
+		end < b.length - start &&
+		a[a.length - 1 - end] === b[b.length - 1 - end]
+	) {
+		end++;
+	}
+
+	const [rows, columns] = [a.length - start - end, b.length - start - end];
+	const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = columns - 1; j >= 0; j--) {
+			lengths[i][j] =
+				a[start + i] === b[start + j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const pairs = _.range(start).map((index) => [index, index]);
+	let [i, j] = [0, 0];
+	while (i < rows && j < columns) {
+		if (a[start + i] === b[start + j]) {
+			pairs.push([start + i++, start + j++]);
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	_.range(end).forEach((offset) => pairs.push([a.length - end + offset, b.length - end + offset]));
+	return pairs;
+}
+
+/**
+ * Align the children of the same statement in every device
+ * @param {Array} parents - The statement in every device, undefined where it is missing
+ * @return {Array} - The slots in an order that keeps the order of every device
+ */
+function alignChildren(parents: Array<JuniperNode | undefined>): Slot[] {
+	let slots: Slot[] = [];
+
+	parents.forEach((parent, device) => {
+		if (!parent) return;
+
+		// Statements with the same key are told apart by their position
+		const counts: Record<string, number> = {};
+		const keyed = parent.children.map((node) => {
+			const key = alignKey(node);
+			counts[key] = (counts[key] ?? 0) + 1;
+			return { key: `${key}#${counts[key]}`, node };
+		});
+
+		const merged: Slot[] = [];
+		let [slotIndex, childIndex] = [0, 0];
+		const pairs = commonSubsequence(
+			slots.map(({ key }) => key),
+			keyed.map(({ key }) => key),
+		);
+		for (const [nextSlot, nextChild] of [...pairs, [slots.length, keyed.length]]) {
+			merged.push(...slots.slice(slotIndex, nextSlot));
+			keyed.slice(childIndex, nextChild).forEach(({ key, node }) => {
+				const nodes = new Array<JuniperNode | undefined>(parents.length).fill(undefined);
+				nodes[device] = node;
+				merged.push({ key, nodes });
+			});
+			if (nextSlot < slots.length) {
+				slots[nextSlot].nodes[device] = keyed[nextChild].node;
+				merged.push(slots[nextSlot]);
+			}
+			[slotIndex, childIndex] = [nextSlot + 1, nextChild + 1];
+		}
+		slots = merged;
+	});
+
+	return slots;
+}
+
+/**
+ * Variable keys of the children of a statement, numbered where siblings would share them,
+ * e.g. "unit._0" and "unit._0_2" for an active and an inactive "unit 0"
+ */
+function childKeys(labels: string[], keys: string[]): string[][] {
+	const taken: string[][] = [];
+	const conflicts = (candidate: string[]) =>
+		taken.some((other) => {
+			const length = Math.min(other.length, candidate.length);
+			return _.isEqual(other.slice(0, length), candidate.slice(0, length));
+		});
+
+	return labels.map((label) => {
+		const base = labelKeys(label);
+		let candidate = base;
+		for (let count = 2; conflicts(candidate); count++) {
+			candidate = [...base.slice(0, -1), `${base[base.length - 1]}_${count}`];
+		}
+		taken.push(candidate);
+		return [...keys, ...candidate];
+	});
+}
+
+/**
+ * Infer a template from several configurations and the variables that render each of them
+ * @param {Array} devices - The names and ASTs of the devices, at least one
+ * @return {Object} - The template AST, the variables of every device and the conditional sections
+ */
+export function generateGoldenTemplate(devices: GoldenDevice[]): GoldenTemplate {
+	if (!devices.length) throw new Error('A golden template needs at least one device');
+	const duplicate = devices.find(
+		({ name }, index) => devices.findIndex((other) => other.name === name) !== index,
+	);
+	if (duplicate) throw new Error(`Device names must be unique, "${duplicate.name}" is repeated`);
+
+	const variables = devices.map(() => ({}) as Record<string, unknown>);
+	const sections: GoldenSection[] = [];
+
+	const visit = (
+		nodes: Array<JuniperNode | undefined>,
+		keys: string[],
+		hierarchy: string[],
+	): JuniperNode => {
+		const present = _.range(devices.length).filter((device) => nodes[device]);
+		const [first, ...rest] = present.map((device) => nodes[device] as JuniperNode);
+		const node: JuniperNode = {
+			..._.omit(first, ['span', 'inheritedFrom', ...COMMENT_PROPERTIES]),
+			children: [],
+		};
+
+		for (const property of COMMENT_PROPERTIES) {
+			if (first[property] && rest.every((other) => _.isEqual(other[property], first[property]))) {
+				(node as unknown as Record<string, unknown>)[property] = first[property];
+			}
+		}
+
+		// Blocks are aligned by their value, so only directive values differ
+		if (rest.some((other) => other.value !== first.value)) {
+			node.value = `{{${keys.join('.')}}}`;
+			present.forEach((device) => _.set(variables[device], keys, nodes[device]?.value));
+		}
+
+		const slots = alignChildren(nodes);
+		const labels = slots.map(({ nodes: slotNodes }) =>
+			nodeLabel(slotNodes.find(Boolean) as JuniperNode),
+		);
+		const slotKeys = childKeys(labels, keys);
+
+		slots.forEach((slot, index) => {
+			const path = slotKeys[index];
+			const template = visit(slot.nodes, path, [...hierarchy, labels[index]]);
+			const having = present.filter((device) => slot.nodes[device]);
+			if (having.length === present.length) {
+				node.children.push(template);
+				return;
+			}
+
+			const condition = `${path.join('.')} is defined`;
+			const isContainer = template.type !== 'flag' && template.type !== 'directive';
+			present.forEach((device) => {
+				if (!slot.nodes[device]) {
+					// The test looks the variable up in its parent, which must exist
+					if (path.length > 1 && !_.has(variables[device], path.slice(0, -1))) {
+						_.set(variables[device], path.slice(0, -1), {});
+					}
+				} else if (!_.has(variables[device], path)) {
+					_.set(variables[device], path, isContainer ? {} : true);
+				}
+			});
+
+			sections.push({
+				condition,
+				hierarchy: [...hierarchy, labels[index]],
+				devices: having.map((device) => devices[device].name),
+			});
+			node.children.push(
+				createNode('flag', `{% if ${condition} %}`),
+				template,
+				createNode('flag', '{% endif %}'),
+			);
+		});
+
+		return node;
+	};
+
+	const ast = visit(
+		devices.map(({ ast }) => ast),
+		[],
+		[],
+	);
+
+	return {
+		ast,
+		variables: Object.fromEntries(devices.map(({ name }, index) => [name, variables[index]])),
+		sections,
+	};
+}
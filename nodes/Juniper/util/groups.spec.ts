@@ -0,0 +1,140 @@
+import { expandGroups } from './groups';
+import { astToConfig, parseJuniperConfig } from './juniper';
+
+const config = `groups {
+    jumbo {
+        interfaces {
+            <ge-*> {
+                mtu 9192;
+                unit <*> {
+                    family inet {
+                        mtu 9000;
+                    }
+                }
+            }
+        }
+    }
+    base {
+        system {
+            host-name default;
+            ntp {
+                server 10.0.0.1;
+            }
+        }
+        interfaces {
+            ge-0/0/1 {
+                description from-base;
+            }
+        }
+    }
+    site {
+        system {
+            host-name site;
+            ntp {
+                server 10.0.0.2;
+            }
+        }
+    }
+}
+apply-groups [ site base ];
+system {
+    host-name router1;
+}
+interfaces {
+    apply-groups jumbo;
+    ge-0/0/0 {
+        mtu 1500;
+        unit 0 {
+            family inet;
+        }
+    }
+    ge-0/0/1 {
+        apply-groups-except jumbo;
+    }
+    ge-0/0/2 {
+        unit 0;
+    }
+    xe-0/1/0 {
+        unit 0;
+    }
+}`;
+
+describe('groups', () => {
+	describe('expandGroups', () => {
+		it('merges the applied groups into the effective configuration', () => {
+			expect(astToConfig(expandGroups(parseJuniperConfig(config)))).toBe(`system {
+    host-name router1;
+    ntp {
+        server 10.0.0.2;
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        mtu 1500;
+        unit 0 {
+            family inet {
+                mtu 9000;
+            }
+        }
+    }
+    ge-0/0/1 {
+        description from-base;
+    }
+    ge-0/0/2 {
+        unit 0 {
+            family inet {
+                mtu 9000;
+            }
+        }
+        mtu 9192;
+    }
+    xe-0/1/0 {
+        unit 0;
+    }
+}`);
+		});
+
+		it('records the group each inherited node came from', () => {
+			const ast = expandGroups(parseJuniperConfig(config));
+			const [system, interfaces] = ast.children;
+
+			expect(system.children.map(({ name, inheritedFrom }) => [name, inheritedFrom])).toEqual([
+				['host-name', undefined],
+				['ntp', 'site'],
+			]);
+			expect(system.children[1].children.map(({ inheritedFrom }) => inheritedFrom)).toEqual([
+				'site',
+				'base',
+			]);
+			expect(interfaces.children[0].children[1].children[0].children[0].inheritedFrom).toBe(
+				'jumbo',
+			);
+		});
+
+		it('keeps the groups when asked to', () => {
+			const ast = expandGroups(parseJuniperConfig(config), { keepGroups: true });
+
+			expect(ast.children.map(({ name }) => name)).toEqual([
+				'groups',
+				'apply-groups',
+				'system',
+				'interfaces',
+			]);
+		});
+
+		it('rejects groups that are not defined', () => {
+			expect(() => expandGroups(parseJuniperConfig('apply-groups missing;'))).toThrow(
+				'Group "missing" is not defined',
+			);
+		});
+
+		it('skips groups that are not defined when asked to', () => {
+			const ast = parseJuniperConfig('apply-groups missing;\nsystem {\n    host-name r1;\n}');
+
+			expect(astToConfig(expandGroups(ast, { ignoreUndefined: true }))).toBe(
+				'system {\n    host-name r1;\n}',
+			);
+		});
+	});
+});
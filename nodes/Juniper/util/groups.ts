@@ -0,0 +1,231 @@
+import _ from 'lodash';
+import { JuniperNode } from './juniper';
+import { KEYED_ELEMENTS, NAMED_STATEMENTS } from './schema';
+
+/**
+ * Junos Configuration Groups
+ *
+ * `groups` holds named pieces of configuration that `apply-groups` merges into the hierarchy
+ * level it is configured at. This module expands them into the effective configuration the
+ * device runs, following the Junos inheritance rules:
+ *
+ * - Statements configured explicitly win over inherited ones
+ * - `apply-groups` at a deeper level wins over one further up, and within one `apply-groups`
+ *   the group listed first wins
+ * - `apply-groups-except` stops the listed groups from being inherited at that level and below
+ * - Wildcards such as `<ge-*>` or `unit <*>` only add to statements that are configured,
+ *   a literal name in a group wins over a wildcard
+ *
+ * Inherited nodes record the group they came from in `inheritedFrom`.
+ */
+
+export interface ExpandGroupsOptions {
+	// Keep the groups stanza and the apply-groups statements in the result
+	keepGroups?: boolean;
+	// Skip the groups that are applied but not defined rather than rejecting them
+	ignoreUndefined?: boolean;
+}
+
+interface GroupSource {
+	group: string;
+	// The node of the group at the hierarchy level being expanded
+	node: JuniperNode;
+}
+
+const APPLY_STATEMENTS = new Set(['apply-groups', 'apply-groups-except']);
+
+const isContainer = (node: JuniperNode) =>
+	node.type === 'block' || node.type === 'named-block' || node.type === 'pattern-block';
+
+const isWildcard = (text: string | null) => /^<.+>$/.test(text ?? '');
+
+const isWildcardNode = (node: JuniperNode) =>
+	node.type === 'pattern-block' || (node.type === 'block' && isWildcard(node.name));
+
+/**
+ * Whether a name matches a Junos wildcard such as `<ge-*>`, `<xe-0/0/?>` or `<[gx]e-*>`
+ */
+function matchesWildcard(wildcard: string, name: string | null): boolean {
+	if (name === null) return false;
+	const source = wildcard
+		.slice(1, -1)
+		.replace(/[.+^${}()|\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	try {
+		return new RegExp(`^${source}$`).test(name);
+	} catch {
+		// An unbalanced bracket matches nothing, as it would not commit
+		return false;
+	}
+}
+
+/**
+ * Key that identifies a statement among its siblings. Single-valued statements such as `mtu`
+ * are keyed by name, so an explicit `mtu 1500` hides an inherited `mtu 9192`, while named and
+ * repeatable ones such as `unit 0` or `server 10.0.0.1` keep their value, with or without a block.
+ * @param {Object} node - The statement
+ * @return {string} - The key, equal for statements that configure the same thing
+ */
+export function statementKey(node: JuniperNode): string {
+	if (node.type === 'block') return `block|${node.name}`;
+	if (
+		node.type === 'named-block' ||
+		node.type === 'pattern-block' ||
+		NAMED_STATEMENTS.has(node.name ?? '') ||
+		KEYED_ELEMENTS.has(node.name ?? '')
+	) {
+		return `entry|${node.name}|${node.value}`;
+	}
+	return `leaf|${node.name}`;
+}
+
+/**
+ * Whether a wildcard statement of a group applies to a configured statement
+ */
+function wildcardMatches(wildcard: JuniperNode, node: JuniperNode): boolean {
+	if (wildcard.type === 'pattern-block') {
+		return (
+			(node.type === 'named-block' || node.type === 'directive') &&
+			node.name === wildcard.name &&
+			matchesWildcard(wildcard.value ?? '', node.value)
+		);
+	}
+	return node.type === 'block' && matchesWildcard(wildcard.name ?? '', node.name);
+}
+
+/**
+ * The nodes of the groups that apply to a configured statement, in order of precedence
+ * @param {Object} node - The configured statement
+ * @param {Array} sources - The group nodes that apply to its parent
+ * @return {Array} - The matching children of those nodes, literal names before wildcards
+ */
+function childSources(node: JuniperNode, sources: GroupSource[]): GroupSource[] {
+	const key = statementKey(node);
+	return sources.flatMap(({ group, node: source }) => {
+		const active = source.children.filter((child) => !child.inactive);
+		return [
+			...active.filter((child) => !isWildcardNode(child) && statementKey(child) === key),
+			...active.filter((child) => isWildcardNode(child) && wildcardMatches(child, node)),
+		].map((child) => ({ group, node: child }));
+	});
+}
+
+/**
+ * Group names listed by the `apply-groups` or `apply-groups-except` statements of a node
+ */
+function listedGroups(node: JuniperNode, statement: string): string[] {
+	return node.children
+		.filter((child) => child.name === statement && !child.inactive && child.value)
+		.flatMap((child) => (child.value as string).split(/\s+/));
+}
+
+/**
+ * Copy a group statement into the configuration. Blocks are copied empty, their contents are
+ * merged level by level so that other groups can still contribute to them.
+ */
+function inheritedCopy(node: JuniperNode, group: string): JuniperNode {
+	const { span: _span, children, ...rest } = node;
+	return {
+		...rest,
+		children: isContainer(node) ? [] : _.cloneDeep(children),
+		inheritedFrom: group,
+	};
+}
+
+/**
+ * Merge the applicable groups into a node, then into its children
+ * @param {Object} node - The node being expanded, changed in place
+ * @param {Array} path - The nodes from below the root down to `node`
+ * @param {Array} inherited - Group nodes applied further up, in order of precedence
+ * @param {Set} excluded - Groups excluded by `apply-groups-except` further up
+ * @param {Map} groups - The group definitions by name
+ * @param {Object} options - Whether to skip groups that are not defined
+ */
+function expandNode(
+	node: JuniperNode,
+	path: JuniperNode[],
+	inherited: GroupSource[],
+	excluded: Set<string>,
+	groups: Map<string, JuniperNode>,
+	options: ExpandGroupsOptions,
+) {
+	const except = new Set([...excluded, ...listedGroups(node, 'apply-groups-except')]);
+
+	// Groups applied at this level are matched against the path from the top of each group
+	const local = listedGroups(node, 'apply-groups').flatMap((group) => {
+		const definition = groups.get(group);
+		if (!definition) {
+			if (options.ignoreUndefined) return [];
+			throw new Error(`Group "${group}" is not defined`);
+		}
+		return path.reduce(
+			(sources, step) => childSources(step, sources),
+			[{ group, node: definition }],
+		);
+	});
+	const sources = [...local, ...inherited].filter(({ group }) => !except.has(group));
+
+	for (const { group, node: source } of sources) {
+		for (const child of source.children) {
+			if (child.inactive || APPLY_STATEMENTS.has(child.name ?? '') || isWildcardNode(child)) {
+				continue;
+			}
+			const key = statementKey(child);
+			if (!node.children.some((existing) => statementKey(existing) === key)) {
+				node.children.push(inheritedCopy(child, group));
+			}
+		}
+	}
+
+	for (const child of node.children) {
+		// Groups are not applied to their own definitions
+		if (node.type === 'root' && child.name === 'groups') continue;
+
+		const applicable = childSources(child, sources).filter(({ node: source }) =>
+			isContainer(source),
+		);
+		if (!isContainer(child)) {
+			// A statement such as `unit 0;` opens a block when a group adds to it
+			const adds = applicable.some(({ node: source }) => source.children.length);
+			if (child.type !== 'directive' || child.quoted || child.list || !adds) continue;
+			child.type = 'named-block';
+		}
+		expandNode(child, [...path, child], applicable, except, groups, options);
+	}
+}
+
+/**
+ * Remove the apply-groups statements from a node and its children
+ */
+function removeApplyStatements(node: JuniperNode) {
+	node.children = node.children.filter((child) => !APPLY_STATEMENTS.has(child.name ?? ''));
+	node.children.forEach(removeApplyStatements);
+}
+
+/**
+ * Expand `groups` and `apply-groups` into the effective configuration
+ * @param {Object} ast - The configuration, which is not changed
+ * @param {Object} options - Whether to keep the groups and apply-groups statements, and to skip
+ * groups that are not defined
+ * @return {Object} - A new AST with the inherited statements merged in
+ */
+export function expandGroups(ast: JuniperNode, options: ExpandGroupsOptions = {}): JuniperNode {
+	const expanded = _.cloneDeep(ast);
+	const groups = new Map<string, JuniperNode>();
+
+	expanded.children
+		.filter((child) => child.name === 'groups' && child.type === 'block' && !child.inactive)
+		.flatMap((child) => child.children)
+		.filter((group) => isContainer(group) && !group.inactive)
+		.forEach((group) => groups.set(group.name ?? '', group));
+
+	expandNode(expanded, [], [], new Set(), groups, options);
+
+	if (!options.keepGroups) {
+		expanded.children = expanded.children.filter((child) => child.name !== 'groups');
+		removeApplyStatements(expanded);
+	}
+
+	return expanded;
+}
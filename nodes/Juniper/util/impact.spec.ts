@@ -0,0 +1,215 @@
+import { classifyImpact, subsystemOf, validateImpactRules } from './impact';
+import { diffAst, parseJuniperConfig } from './juniper';
+
+const before = parseJuniperConfig(`system {
+    host-name r1;
+    syslog {
+        file messages {
+            any notice;
+        }
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description "to core";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        group EBGP {
+            neighbor 192.0.2.1 {
+                peer-as 65001;
+            }
+            neighbor 192.0.2.3 {
+                peer-as 65002;
+            }
+        }
+    }
+}
+firewall {
+    filter PROTECT {
+        term ssh {
+            then accept;
+        }
+        term deny {
+            then discard;
+        }
+    }
+}`);
+
+const after = parseJuniperConfig(`system {
+    host-name r1;
+    syslog {
+        file messages {
+            any warning;
+        }
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description "to core 2";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        group EBGP {
+            neighbor 192.0.2.1 {
+                peer-as 65001;
+                description "isp";
+            }
+        }
+    }
+}
+firewall {
+    filter PROTECT {
+        term ssh {
+            then accept;
+        }
+    }
+}`);
+
+describe('impact', () => {
+	describe('classifyImpact', () => {
+		it('annotates every change with its subsystem and risk', () => {
+			const { changes } = classifyImpact(diffAst(before, after, { matchBy: 'identity' }));
+
+			expect(
+				changes.map(({ type, absolutePath, subsystem, risk, reason }) => [
+					type,
+					absolutePath.join(' '),
+					subsystem,
+					risk,
+					reason,
+				]),
+			).toEqual([
+				['modify', 'system syslog file messages any', 'management', 'low', undefined],
+				['modify', 'interfaces ge-0/0/0 description', 'interfaces', 'low', 'Description only'],
+				[
+					'remove',
+					'protocols bgp group EBGP neighbor 192.0.2.3',
+					'routing',
+					'high',
+					'Removes BGP configuration',
+				],
+				[
+					'add',
+					'protocols bgp group EBGP neighbor 192.0.2.1 description',
+					'routing',
+					'low',
+					'Description only',
+				],
+				[
+					'remove',
+					'firewall filter PROTECT term deny',
+					'security',
+					'high',
+					'Removes or reorders a filter term',
+				],
+			]);
+		});
+
+		it('summarizes the changes by risk and hierarchy', () => {
+			const { summary } = classifyImpact(diffAst(before, after, { matchBy: 'identity' }));
+
+			expect(summary).toEqual({
+				total: 5,
+				highestRisk: 'high',
+				byRisk: { low: 3, medium: 0, high: 2 },
+				bySubsystem: { management: 1, interfaces: 1, routing: 2, security: 1 },
+				messages: [
+					'1 high-risk change in firewall filter PROTECT',
+					'1 high-risk change in protocols bgp',
+					'1 low-risk change in interfaces ge-0/0/0',
+					'1 low-risk change in protocols bgp',
+					'1 low-risk change in system syslog',
+				],
+			});
+		});
+
+		it('takes the riskiest statement of an added or removed hierarchy', () => {
+			const withoutInterfaces = parseJuniperConfig('system { host-name r1; }');
+			const { changes } = classifyImpact(
+				diffAst(before, withoutInterfaces, { matchBy: 'identity' }),
+				validateImpactRules([
+					{ path: 'interfaces//address', changes: ['remove'], risk: 'high', reason: 'Address' },
+					{ path: 'protocols', risk: 'medium' },
+				]),
+			);
+
+			expect(
+				changes.map(({ absolutePath, risk, reason }) => [absolutePath[0], risk, reason]),
+			).toEqual([
+				['interfaces', 'high', 'Address'],
+				['protocols', 'medium', undefined],
+				['firewall', 'low', undefined],
+				['system', 'low', undefined],
+			]);
+		});
+
+		it('reads index-matched paths and deactivations', () => {
+			const inactive = parseJuniperConfig(
+				'protocols { bgp { inactive: group EBGP { type external; } } }',
+			);
+			const active = parseJuniperConfig('protocols { bgp { group EBGP { type external; } } }');
+
+			expect(classifyImpact(diffAst(active, inactive)).changes[0]).toMatchObject({
+				absolutePath: ['protocols', 'bgp', 'group', 'inactive'],
+				subsystem: 'routing',
+				risk: 'high',
+			});
+
+			// Index matching names a unit before labelling it
+			const [change] = classifyImpact(
+				diffAst(
+					parseJuniperConfig('interfaces { ge-0/0/0 { unit 0 { mtu 1500; } } }'),
+					parseJuniperConfig('interfaces { ge-0/0/0 { unit 0 { mtu 9000; } } }'),
+				),
+				[{ path: 'interfaces/*/unit 0/mtu', risk: 'medium' }],
+			).changes;
+			expect(change).toMatchObject({
+				absolutePath: ['interfaces', 'ge-0/0/0', 'unit', 'unit 0', 'mtu', 'value'],
+				risk: 'medium',
+			});
+
+			// Interface names are written as they are
+			const rules = validateImpactRules([{ path: 'interfaces/ge-0/0/0', risk: 'high' }]);
+			expect(
+				classifyImpact(
+					diffAst(
+						parseJuniperConfig('interfaces { ge-0/0/0 { mtu 1500; } ge-0/0/1 { mtu 1500; } }'),
+						parseJuniperConfig('interfaces { ge-0/0/0 { mtu 9000; } ge-0/0/1 { mtu 9000; } }'),
+						{ matchBy: 'identity' },
+					),
+					rules,
+				).changes.map(({ risk }) => risk),
+			).toEqual(['high', 'low']);
+			expect(subsystemOf(['system', 'login', 'user admin'])).toBe('management');
+			expect(subsystemOf(['chassis', 'aggregated-devices'])).toBe('system');
+		});
+	});
+
+	describe('validateImpactRules', () => {
+		it('rejects malformed rules', () => {
+			expect(() => validateImpactRules({})).toThrow('Impact rules must be an array');
+			expect(() => validateImpactRules([{ path: 'system', risk: 'severe' }])).toThrow(
+				'Impact rule 1 needs a "risk" of low, medium, high',
+			);
+			expect(() =>
+				validateImpactRules([{ path: 'system', risk: 'low', changes: ['rename'] }]),
+			).toThrow('"changes" must list some of add, remove, modify, move');
+			expect(() => validateImpactRules([{ path: 'system[name=x]', risk: 'low' }])).toThrow(
+				'predicates are not supported',
+			);
+		});
+	});
+});
@@ -0,0 +1,331 @@
+import { JuniperDiff, JuniperNode, nodeLabel } from './juniper';
+import { matchLabel, parseQuery, QueryStep } from './query';
+
+/**
+ * Change Impact
+ *
+ * Annotates the entries of a diff with the subsystem they touch and a risk level, so that a
+ * changed description and a removed BGP neighbor can be told apart. Risk comes from a rule
+ * table: each rule has a path pattern in the query syntax (see `queryAst`), optionally the kinds
+ * of change it covers, and a risk. For every statement a change touches the first matching rule
+ * applies, and a change that adds or removes a whole hierarchy takes the highest risk of the
+ * statements inside it. Statements no rule matches are low risk.
+ *
+ * Deactivating a statement counts as removing it and activating it as adding it.
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type Subsystem = 'interfaces' | 'routing' | 'security' | 'management' | 'system';
+
+export type ChangeKind = 'add' | 'remove' | 'modify' | 'move';
+
+export interface ImpactRule {
+	path: string;
+	risk: RiskLevel;
+	// The kinds of change the rule covers, all of them when left out
+	changes?: ChangeKind[];
+	reason?: string;
+}
+
+export interface ClassifiedChange extends JuniperDiff {
+	subsystem: Subsystem;
+	risk: RiskLevel;
+	// The reason of the rule that set the risk
+	reason?: string;
+}
+
+export interface ImpactSummary {
+	total: number;
+	// The risk of the riskiest change, low for an empty diff
+	highestRisk: RiskLevel;
+	byRisk: Record<RiskLevel, number>;
+	bySubsystem: Partial<Record<Subsystem, number>>;
+	// e.g. "3 high-risk changes in protocols bgp", riskiest first
+	messages: string[];
+}
+
+export interface ImpactReport {
+	changes: ClassifiedChange[];
+	summary: ImpactSummary;
+}
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+const CHANGE_KINDS: ChangeKind[] = ['add', 'remove', 'modify', 'move'];
+
+const rank = (risk: RiskLevel) => RISK_LEVELS.indexOf(risk);
+
+/**
+ * Subsystem of the statements below each path, the first match wins
+ */
+const SUBSYSTEMS = (
+	[
+		['system/services', 'management'],
+		['system/syslog', 'management'],
+		['system/login', 'management'],
+		['system/ntp', 'management'],
+		['system/radius-server', 'management'],
+		['system/tacplus-server', 'management'],
+		['system/authentication-order', 'management'],
+		['snmp', 'management'],
+		['event-options', 'management'],
+		['interfaces', 'interfaces'],
+		['vlans', 'interfaces'],
+		['bridge-domains', 'interfaces'],
+		['ethernet-switching-options', 'interfaces'],
+		['switch-options', 'interfaces'],
+		['class-of-service', 'interfaces'],
+		['protocols', 'routing'],
+		['routing-options', 'routing'],
+		['policy-options', 'routing'],
+		['routing-instances', 'routing'],
+		['forwarding-options', 'routing'],
+		['security', 'security'],
+		['firewall', 'security'],
+		['access', 'security'],
+		['applications', 'security'],
+	] as Array<[string, Subsystem]>
+).map(([path, subsystem]) => ({ steps: parseQuery(path), subsystem }));
+
+/**
+ * Rules used when no rule table is given
+ */
+export const DEFAULT_IMPACT_RULES: ImpactRule[] = [
+	{ path: '//description', risk: 'low', reason: 'Description only' },
+	{ path: 'interfaces/*/disable', changes: ['add'], risk: 'high', reason: 'Disables an interface' },
+	{ path: 'interfaces//address', risk: 'high', reason: 'Changes an interface address' },
+	{
+		path: 'interfaces/*/unit',
+		changes: ['remove'],
+		risk: 'high',
+		reason: 'Removes a logical unit',
+	},
+	{
+		path: 'interfaces//family',
+		changes: ['remove'],
+		risk: 'high',
+		reason: 'Removes a protocol family',
+	},
+	{ path: 'interfaces', risk: 'medium', reason: 'Changes an interface' },
+	{ path: 'protocols/bgp', changes: ['remove'], risk: 'high', reason: 'Removes BGP configuration' },
+	{
+		path: 'protocols/ospf*',
+		changes: ['remove'],
+		risk: 'high',
+		reason: 'Removes OSPF configuration',
+	},
+	{
+		path: 'protocols/isis',
+		changes: ['remove'],
+		risk: 'high',
+		reason: 'Removes IS-IS configuration',
+	},
+	{ path: 'protocols/bgp', risk: 'medium', reason: 'Changes BGP' },
+	{ path: 'protocols/ospf*', risk: 'medium', reason: 'Changes OSPF' },
+	{ path: 'protocols/isis', risk: 'medium', reason: 'Changes IS-IS' },
+	{ path: 'policy-options', risk: 'medium', reason: 'Changes a routing policy' },
+	{ path: 'routing-options', risk: 'medium', reason: 'Changes routing options' },
+	{
+		path: 'routing-instances',
+		changes: ['remove'],
+		risk: 'high',
+		reason: 'Removes routing instance configuration',
+	},
+	{ path: 'routing-instances', risk: 'medium', reason: 'Changes a routing instance' },
+	{
+		path: 'firewall//term',
+		changes: ['remove', 'move'],
+		risk: 'high',
+		reason: 'Removes or reorders a filter term',
+	},
+	{ path: 'firewall', risk: 'medium', reason: 'Changes a firewall filter' },
+	{
+		path: 'security/policies',
+		changes: ['remove', 'move'],
+		risk: 'high',
+		reason: 'Removes or reorders a security policy',
+	},
+	{ path: 'security', risk: 'medium', reason: 'Changes security configuration' },
+	{ path: 'system/root-authentication', risk: 'high', reason: 'Changes root authentication' },
+	{ path: 'system/login', risk: 'medium', reason: 'Changes user accounts' },
+	{ path: 'system/services', risk: 'medium', reason: 'Changes management services' },
+	{ path: 'system/host-name', risk: 'medium', reason: 'Renames the device' },
+];
+
+/**
+ * Check that impact rules are well formed
+ * @param {*} rules - The rules, usually parsed from JSON
+ * @return {Array} - The same rules, typed
+ */
+export function validateImpactRules(rules: unknown): ImpactRule[] {
+	if (!Array.isArray(rules)) throw new Error('Impact rules must be an array');
+
+	rules.forEach((rule, index) => {
+		const name = `Impact rule ${index + 1}`;
+
+		if (typeof rule !== 'object' || rule === null) throw new Error(`${name} must be an object`);
+		if (typeof rule.path !== 'string') throw new Error(`${name} needs a "path"`);
+		if (!RISK_LEVELS.includes(rule.risk)) {
+			throw new Error(`${name} needs a "risk" of ${RISK_LEVELS.join(', ')}`);
+		}
+		if (
+			rule.changes !== undefined &&
+			!(
+				Array.isArray(rule.changes) &&
+				rule.changes.every((kind: ChangeKind) => CHANGE_KINDS.includes(kind))
+			)
+		) {
+			throw new Error(`${name} "changes" must list some of ${CHANGE_KINDS.join(', ')}`);
+		}
+
+		let steps: QueryStep[];
+		try {
+			steps = parseQuery(rule.path);
+		} catch (error) {
+			throw new Error(`${name} "path": ${error.message}`);
+		}
+		if (steps.some(({ predicates }) => predicates.length)) {
+			throw new Error(`${name} "path": predicates are not supported`);
+		}
+	});
+
+	return rules as ImpactRule[];
+}
+
+/**
+ * Whether a path pattern matches the start of a statement path, so that a rule covers
+ * everything below the statement it names. Labels with a `/`, such as `ge-0/0/0`, can take
+ * several steps, as in queries.
+ */
+function matchesPathPrefix(steps: QueryStep[], labels: string[]): boolean {
+	// A step matches a whole label, or the name of a named statement
+	const matchesAt = (s: number, l: number): boolean =>
+		[labels[l], labels[l].split(' ')[0]].some((label) =>
+			matchLabel(label, steps, s).some((count) => match(s + count, l + 1)),
+		);
+
+	const match = (s: number, l: number): boolean => {
+		if (s === steps.length) return true;
+		if (!steps[s].descendant) return l < labels.length && matchesAt(s, l);
+		for (let next = l; next < labels.length; next++) {
+			if (matchesAt(s, next)) return true;
+		}
+		return false;
+	};
+
+	return match(0, 0);
+}
+
+/**
+ * Statement labels of a change. Index-matched diffs name a statement before labelling it,
+ * e.g. "unit" then "unit 0", keep the label only.
+ */
+function changeLabels(change: JuniperDiff): string[] {
+	return change.absolutePath.filter((label, index, labels) => {
+		const next = labels[index + 1];
+		return !next?.startsWith(`${label} `);
+	});
+}
+
+/**
+ * The paths of a node and everything below it
+ */
+function subtreePaths(node: JuniperNode, path: string[]): string[][] {
+	return [
+		path,
+		...node.children.flatMap((child) => subtreePaths(child, [...path, nodeLabel(child)])),
+	];
+}
+
+const isNode = (value: unknown): value is JuniperNode =>
+	typeof value === 'object' && value !== null && Array.isArray((value as JuniperNode).children);
+
+/**
+ * The kind of change an entry makes, with (de)activation counted as removing or adding
+ */
+function changeKind(change: JuniperDiff): ChangeKind {
+	if (change.type === 'add' || change.type === 'remove' || change.type === 'move')
+		return change.type;
+	if (change.property === 'inactive') return change.newValue ? 'remove' : 'add';
+	return 'modify';
+}
+
+/**
+ * The subsystem a statement path belongs to
+ * @param {Array} labels - The statement labels from the root
+ * @return {string} - interfaces, routing, security, management or system
+ */
+export function subsystemOf(labels: string[]): Subsystem {
+	return SUBSYSTEMS.find(({ steps }) => matchesPathPrefix(steps, labels))?.subsystem ?? 'system';
+}
+
+/**
+ * Summary counts and messages, grouping changes by risk and the first two statements of their path
+ */
+function summarize(changes: ClassifiedChange[]): ImpactSummary {
+	const byRisk: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0 };
+	const bySubsystem: Partial<Record<Subsystem, number>> = {};
+	const groups = new Map<string, { risk: RiskLevel; area: string; count: number }>();
+
+	for (const change of changes) {
+		byRisk[change.risk]++;
+		bySubsystem[change.subsystem] = (bySubsystem[change.subsystem] ?? 0) + 1;
+
+		const area = changeLabels(change).slice(0, 2).join(' ') || 'the configuration';
+		const key = `${change.risk}|${area}`;
+		const group = groups.get(key) ?? { risk: change.risk, area, count: 0 };
+		group.count++;
+		groups.set(key, group);
+	}
+
+	const messages = [...groups.values()]
+		.sort(
+			(a, b) => rank(b.risk) - rank(a.risk) || b.count - a.count || a.area.localeCompare(b.area),
+		)
+		.map(
+			({ risk, area, count }) => `${count} ${risk}-risk change${count === 1 ? '' : 's'} in ${area}`,
+		);
+
+	const highestRisk = [...RISK_LEVELS].reverse().find((risk) => byRisk[risk]) ?? 'low';
+
+	return { total: changes.length, highestRisk, byRisk, bySubsystem, messages };
+}
+
+/**
+ * Annotate diff entries with the subsystem they touch and their risk
+ * @param {Array} diff - The diff entries, identity matching gives the most precise paths
+ * @param {Array} rules - The risk rules, validated with `validateImpactRules`
+ * @return {Object} - The annotated entries and a summary
+ */
+export function classifyImpact(
+	diff: JuniperDiff[],
+	rules: ImpactRule[] = DEFAULT_IMPACT_RULES,
+): ImpactReport {
+	const compiled = rules.map((rule) => ({ rule, steps: parseQuery(rule.path) }));
+
+	const changes = diff.map((change): ClassifiedChange => {
+		const labels = changeLabels(change);
+		const kind = changeKind(change);
+		const node = kind === 'remove' ? change.oldValue : change.newValue;
+		const paths = kind !== 'modify' && isNode(node) ? subtreePaths(node, labels) : [labels];
+
+		// The riskiest of the rules that apply to the statements the change touches
+		let applied: ImpactRule | undefined;
+		for (const path of paths) {
+			const match = compiled.find(
+				({ rule, steps }) =>
+					(!rule.changes || rule.changes.includes(kind)) && matchesPathPrefix(steps, path),
+			);
+			if (match && (!applied || rank(match.rule.risk) > rank(applied.risk))) applied = match.rule;
+		}
+
+		return {
+			...change,
+			subsystem: subsystemOf(labels),
+			risk: applied?.risk ?? 'low',
+			...(applied?.reason ? { reason: applied.reason } : {}),
+		};
+	});
+
+	return { changes, summary: summarize(changes) };
+}
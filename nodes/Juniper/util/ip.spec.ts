@@ -0,0 +1,49 @@
+import { isIpPrefix, isLinkLocal, isSameAddress, parseIpPrefix, prefixesOverlap } from './ip';
+
+describe('ip', () => {
+	describe('parseIpPrefix', () => {
+		it('parses IPv4 and IPv6 prefixes into their networks', () => {
+			expect(parseIpPrefix('10.1.2.3/24')).toEqual({
+				version: 4,
+				address: '10.1.2.3',
+				prefixLength: 24,
+				network: '10.1.2.0/24',
+			});
+			expect(parseIpPrefix('2001:DB8:0:1:0:0:0:1/80').network).toBe('2001:db8:0:1::/80');
+			expect(parseIpPrefix('::ffff:192.0.2.1/120').network).toBe('::ffff:c000:200/120');
+			expect(parseIpPrefix('fe80::1').prefixLength).toBe(128);
+			expect(parseIpPrefix('0.0.0.0/0').network).toBe('0.0.0.0/0');
+		});
+
+		it('rejects malformed addresses', () => {
+			expect(() => parseIpPrefix('10.0.0.256/24')).toThrow('"10.0.0.256" is not an IPv4 address');
+			expect(() => parseIpPrefix('10.0.0.1/33')).toThrow('expected 0 to 32');
+			expect(() => parseIpPrefix('2001:db8::1::2/64')).toThrow('is not an IPv6 address');
+			expect(() => parseIpPrefix('2001:db8:0:0:0:0:0:0:1')).toThrow('is not an IPv6 address');
+			expect(isIpPrefix('10.0.0/24')).toBe(false);
+			expect(isIpPrefix('ge-0/0/0.0')).toBe(false);
+		});
+	});
+
+	describe('prefixesOverlap', () => {
+		it('compares the shorter of the two networks', () => {
+			const prefix = (text: string) => parseIpPrefix(text);
+
+			expect(prefixesOverlap(prefix('10.0.0.1/24'), prefix('10.0.0.200/25'))).toBe(true);
+			expect(prefixesOverlap(prefix('10.0.0.1/25'), prefix('10.0.0.200/25'))).toBe(false);
+			expect(prefixesOverlap(prefix('2001:db8::1/48'), prefix('2001:db8:0:1::1/64'))).toBe(true);
+			expect(prefixesOverlap(prefix('0.0.0.0/0'), prefix('::/0'))).toBe(false);
+			expect(isSameAddress(prefix('2001:db8::1/64'), prefix('2001:DB8:0::1/126'))).toBe(true);
+		});
+	});
+
+	describe('isLinkLocal', () => {
+		it('matches IPv6 addresses within fe80::/10 only', () => {
+			expect(isLinkLocal(parseIpPrefix('fe80::1/64'))).toBe(true);
+			expect(isLinkLocal(parseIpPrefix('FEBF::1'))).toBe(true);
+			expect(isLinkLocal(parseIpPrefix('fec0::1/64'))).toBe(false);
+			expect(isLinkLocal(parseIpPrefix('fe80::/9'))).toBe(false);
+			expect(isLinkLocal(parseIpPrefix('169.254.0.1/16'))).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,185 @@
+/**
+ * IP Addresses and Prefixes
+ *
+ * Parses the IPv4 and IPv6 addresses Junos configurations use, with or without a prefix length,
+ * e.g. `10.0.0.1/24`, `2001:db8::1/64` or `::ffff:192.0.2.1`, and compares the networks
+ * they belong to.
+ */
+
+export interface IpPrefix {
+	version: 4 | 6;
+	// The address as written, without the prefix length
+	address: string;
+	// 32 or 128 when no prefix length was given
+	prefixLength: number;
+	// The network the address belongs to in canonical form, e.g. "10.0.0.0/24"
+	network: string;
+}
+
+const BITS = { 4: 32, 6: 128 };
+
+/**
+ * Numeric value of an IPv4 address, e.g. "10.0.0.1"
+ */
+function parseIpv4(text: string): bigint {
+	const octets = text.split('.');
+	if (octets.length !== 4) throw new Error(`"${text}" is not an IPv4 address`);
+
+	return octets.reduce((value, octet) => {
+		if (!/^\d{1,3}$/.test(octet) || Number(octet) > 255) {
+			throw new Error(`"${text}" is not an IPv4 address`);
+		}
+		return value * BigInt(256) + BigInt(octet);
+	}, BigInt(0));
+}
+
+/**
+ * Numeric value of an IPv6 address, e.g. "2001:db8::1" or "::ffff:192.0.2.1"
+ */
+function parseIpv6(text: string): bigint {
+	const invalid = () => new Error(`"${text}" is not an IPv6 address`);
+	const halves = text.split('::');
+	if (halves.length > 2) throw invalid();
+
+	// An IPv4 address in the last 32 bits counts as two groups
+	const toGroups = (part: string): string[] =>
+		part === ''
+			? []
+			: part.split(':').flatMap((group, index, groups) => {
+					if (index === groups.length - 1 && group.includes('.')) {
+						const value = parseIpv4(group);
+						return [(value >> BigInt(16)).toString(16), (value & BigInt(0xffff)).toString(16)];
+					}
+					return [group];
+				});
+
+	const [head, tail] = [toGroups(halves[0]), toGroups(halves[1] ?? '')];
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 1 ? missing !== 0 : missing < 1) throw invalid();
+
+	const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+	return groups.reduce((value, group) => {
+		if (!/^[0-9a-f]{1,4}$/i.test(group)) throw invalid();
+		return (value << BigInt(16)) + BigInt(parseInt(group, 16));
+	}, BigInt(0));
+}
+
+/**
+ * Canonical text of an address: dotted quad, or RFC 5952 IPv6 with the longest zero run compressed
+ */
+function formatAddress(version: 4 | 6, value: bigint): string {
+	if (version === 4) {
+		return [24, 16, 8, 0].map((shift) => (value >> BigInt(shift)) & BigInt(255)).join('.');
+	}
+
+	const groups = Array.from({ length: 8 }, (_item, index) =>
+		Number((value >> BigInt(112 - index * 16)) & BigInt(0xffff)),
+	);
+
+	// The longest run of at least two zero groups, the first one on a tie
+	let best = { start: -1, length: 1 };
+	for (let start = 0; start < 8; start++) {
+		let length = 0;
+		while (start + length < 8 && groups[start + length] === 0) length++;
+		if (length > best.length) best = { start, length };
+	}
+
+	const hex = groups.map((group) => group.toString(16));
+	if (best.start === -1) return hex.join(':');
+	const head = hex.slice(0, best.start).join(':');
+	const tail = hex.slice(best.start + best.length).join(':');
+	return `${head}::${tail}`;
+}
+
+/**
+ * Numeric value and version of an address
+ */
+function parseAddress(text: string): { version: 4 | 6; value: bigint } {
+	return text.includes(':')
+		? { version: 6, value: parseIpv6(text) }
+		: { version: 4, value: parseIpv4(text) };
+}
+
+/**
+ * Mask that keeps the network bits of an address
+ */
+function networkMask(version: 4 | 6, prefixLength: number): bigint {
+	const bits = BigInt(BITS[version]);
+	const all = (BigInt(1) << bits) - BigInt(1);
+	return all ^ ((BigInt(1) << (bits - BigInt(prefixLength))) - BigInt(1));
+}
+
+/**
+ * Parse an address with an optional prefix length
+ * @param {string} text - The address, e.g. "10.0.0.1/24" or "2001:db8::1"
+ * @return {Object} - The version, address, prefix length and network
+ */
+export function parseIpPrefix(text: string): IpPrefix {
+	const [address, length, ...rest] = text.trim().split('/');
+	if (rest.length) throw new Error(`"${text}" has more than one prefix length`);
+
+	const { version, value } = parseAddress(address);
+	const bits = BITS[version];
+	if (length !== undefined && !(/^\d{1,3}$/.test(length) && Number(length) <= bits)) {
+		throw new Error(`"${text}" has an invalid prefix length, expected 0 to ${bits}`);
+	}
+	const prefixLength = length === undefined ? bits : Number(length);
+
+	return {
+		version,
+		address,
+		prefixLength,
+		network: `${formatAddress(version, value & networkMask(version, prefixLength))}/${prefixLength}`,
+	};
+}
+
+/**
+ * Whether text is a valid address, with or without a prefix length
+ * @param {string} text - The text to check
+ * @return {boolean} - True when `parseIpPrefix` accepts it
+ */
+export function isIpPrefix(text: string): boolean {
+	try {
+		parseIpPrefix(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Whether two addresses are the same host, however they are written
+ * @param {Object} a - A parsed address
+ * @param {Object} b - Another parsed address
+ * @return {boolean} - True for the same version and address value
+ */
+export function isSameAddress(a: IpPrefix, b: IpPrefix): boolean {
+	return a.version === b.version && parseAddress(a.address).value === parseAddress(b.address).value;
+}
+
+/**
+ * Whether the networks of two prefixes share any address, i.e. one contains the other
+ * @param {Object} a - A parsed prefix
+ * @param {Object} b - Another parsed prefix
+ * @return {boolean} - True when the networks overlap
+ */
+export function prefixesOverlap(a: IpPrefix, b: IpPrefix): boolean {
+	if (a.version !== b.version) return false;
+	const mask = networkMask(a.version, Math.min(a.prefixLength, b.prefixLength));
+	return (parseAddress(a.address).value & mask) === (parseAddress(b.address).value & mask);
+}
+
+const IPV6_LINK_LOCAL = parseIpPrefix('fe80::/10');
+
+/**
+ * Whether an address is IPv6 link-local, which every interface may reuse on its own link
+ * @param {Object} prefix - A parsed address
+ * @return {boolean} - True for addresses within fe80::/10
+ */
+export function isLinkLocal(prefix: IpPrefix): boolean {
+	return (
+		prefix.version === 6 &&
+		prefix.prefixLength >= IPV6_LINK_LOCAL.prefixLength &&
+		prefixesOverlap(prefix, IPV6_LINK_LOCAL)
+	);
+}
@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { convertToJinja2Ast } from './jinja2';
+import { convertToJinja2Ast, generateJinja2 } from './jinja2';
 import {
 	addInterfaceProp,
 	astToConfig,
@@ -10,6 +10,8 @@ import {
 	JuniperNode,
 	parseJuniperConfig,
 } from './juniper';
+import { renderJinja2 } from './template';
+import { extractVariables } from './variables';
 
 describe('jinja2', () => {
 	let ast1: JuniperNode;
@@ -57,3 +59,154 @@ describe('jinja2', () => {
 		});
 	});
 });
+
+const config = `interfaces {
+    ge-0/0/0 {
+        description uplink;
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+    ge-0/0/1 {
+        description core;
+        unit 0 {
+            family inet {
+                address 10.0.0.3/31;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        group EBGP {
+            neighbor 10.0.0.0 {
+                peer-as 65001;
+            }
+            neighbor 10.0.0.2 {
+                peer-as 65002;
+            }
+        }
+    }
+}
+routing-options {
+    static {
+        route 0.0.0.0/0 next-hop 10.0.0.0;
+        route 10.10.0.0/16 next-hop 10.0.0.2;
+    }
+}`;
+
+describe('generateJinja2', () => {
+	it('loops over any repeated sibling structure', () => {
+		const { ast, loops } = generateJinja2(parseJuniperConfig(config));
+		const template = astToConfig(ast).replace(/%};/g, '%}');
+
+		expect(loops.map(({ collection, variable }) => [collection, variable])).toEqual([
+			['interfaces', 'interface'],
+			['protocols.bgp.group.EBGP.neighbors', 'neighbor'],
+			['routing_options.static.routes', 'route'],
+		]);
+		expect(template).toContain('{% for neighbor in protocols.bgp.group.EBGP.neighbors %}');
+		expect(template).toContain('neighbor {{neighbor.name}} {');
+		expect(template).toContain('peer-as {{neighbor.peer_as}};');
+		expect(template).toContain('address {{interface.unit._0.family.inet.address}};');
+		expect(template).toContain('route {{route.name}};');
+	});
+
+	it('returns the variables that render the template back to the AST', () => {
+		const source = parseJuniperConfig(config);
+		const { ast, variables } = generateJinja2(source);
+
+		expect(variables).toMatchObject({
+			interfaces: [
+				{ name: 'ge-0/0/0', description: 'uplink' },
+				{ name: 'ge-0/0/1', description: 'core' },
+			],
+			protocols: { bgp: { group: { EBGP: { neighbors: [{ name: '10.0.0.0' }, {}] } } } },
+		});
+
+		const rendered = renderJinja2(astToConfig(ast).replace(/%};/g, '%}'), variables);
+
+		expect(diffAst(source, parseJuniperConfig(rendered))).toEqual([]);
+	});
+
+	it('only loops over siblings the diff touches', () => {
+		const source = parseJuniperConfig(config);
+		const changed = parseJuniperConfig(config.replace('peer-as 65002', 'peer-as 65003'));
+		const { loops } = generateJinja2(source, diffAst(source, changed));
+
+		expect(loops.map(({ collection }) => collection)).toEqual([
+			'protocols.bgp.group.EBGP.neighbors',
+		]);
+	});
+
+	it('turns the other values the diff changes into variables', () => {
+		const device = `system {
+    host-name sw-01;
+    domain-search [ a.example b.example ];
+}
+${config}`;
+		const source = parseJuniperConfig(device);
+		const diff = diffAst(
+			source,
+			parseJuniperConfig(
+				device
+					.replace('sw-01', 'sw-02')
+					.replace('b.example', 'c.example')
+					.replace('peer-as 65002', 'peer-as 65003'),
+			),
+			{ matchBy: 'identity' },
+		);
+		const { ast, variables } = generateJinja2(source, diff);
+		const template = astToConfig(ast).replace(/%};/g, '%}');
+
+		expect(template).toContain('host-name {{system.host_name}};');
+		expect(template).toContain("domain-search [ {{system.domain_search | join(' ')}} ];");
+		expect(variables.system).toEqual(extractVariables(diff).variables.system);
+		expect(diffAst(source, parseJuniperConfig(renderJinja2(template, variables)))).toEqual([]);
+	});
+
+	it('leaves out a loop whose collection a changed value is keyed below', () => {
+		const loopback = `interfaces {
+    lo0 {
+        unit 0 {
+            family inet {
+                address 10.255.0.1/32;
+            }
+        }
+    }`;
+		const device = config.replace('interfaces {', loopback);
+		const source = parseJuniperConfig(device);
+		const diff = diffAst(
+			source,
+			parseJuniperConfig(
+				device.replace('10.255.0.1/32', '10.255.0.2/32').replace('10.0.0.3/31', '10.0.0.5/31'),
+			),
+			{ matchBy: 'identity' },
+		);
+		const { ast, variables, loops } = generateJinja2(source, diff);
+		const template = astToConfig(ast).replace(/%};/g, '%}');
+
+		expect(loops).toEqual([]);
+		expect(template).toContain('address {{interfaces.lo0.unit._0.family.inet.address}};');
+		expect(template).toContain('address {{interfaces.ge_0_0_1.unit._0.family.inet.address}};');
+		expect(variables).toEqual(extractVariables(diff).variables);
+		expect(diffAst(source, parseJuniperConfig(renderJinja2(template, variables)))).toEqual([]);
+	});
+
+	it('keeps values derived from the item name', () => {
+		const { ast } = generateJinja2(
+			parseJuniperConfig(`vlans {
+    v10 {
+        l3-interface irb.v10;
+    }
+    v20 {
+        l3-interface irb.v20;
+    }
+}`),
+		);
+
+		expect(astToConfig(ast)).toContain('l3-interface irb.{{vlan.name}};');
+	});
+});
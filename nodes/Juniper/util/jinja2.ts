@@ -1,5 +1,382 @@
 import _ from 'lodash';
-import { JuniperDiff, JuniperNode } from './juniper';
+import { createNode, JuniperDiff, JuniperNode, nodeLabel } from './juniper';
+import { IMPLICIT_NAME_CONTAINERS } from './schema';
+import { labelKeys, toVariableValue, VariableValue } from './variables';
+
+export interface Jinja2Loop {
+	// Jinja2 expression of the list the loop iterates, e.g. "protocols.bgp.group.EBGP.neighbors"
+	collection: string;
+	// Name of the loop variable, e.g. "neighbor"
+	variable: string;
+	// Labels of the hierarchy the loop sits in
+	hierarchy: string[];
+	count: number;
+}
+
+export interface Jinja2Template {
+	ast: JuniperNode;
+	variables: Record<string, unknown>;
+	loops: Jinja2Loop[];
+}
+
+interface LoopGroup {
+	variable: string;
+	collectionKey: string;
+	items: JuniperNode[];
+	start: number;
+}
+
+/**
+ * Turn a Junos word into a Jinja2 identifier, e.g. "prefix-list" -> "prefix_list"
+ */
+export function toIdentifier(word: string): string {
+	const identifier = word.replace(/[^A-Za-z0-9_]/g, '_');
+	return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Plural of a loop variable, used as the key of its collection
+ */
+function pluralize(word: string): string {
+	if (/(s|x|sh|ch)$/.test(word)) return `${word}es`;
+	if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+	return `${word}s`;
+}
+
+/**
+ * Identifier of a loop item: the entry name or the value of a named statement
+ */
+function itemName(node: JuniperNode): string {
+	return node.type === 'block' ? node.name ?? '' : node.value ?? '';
+}
+
+/**
+ * Key that siblings must share to be iterated by the same loop
+ * @param {Object} node - The sibling
+ * @param {Object} parent - Its parent
+ * @return {string|null} - The key, or null if the node cannot be part of a loop
+ */
+function loopKey(node: JuniperNode, parent: JuniperNode): string | null {
+	if (node.type === 'block' && parent.name && IMPLICIT_NAME_CONTAINERS.has(parent.name)) {
+		return 'entry';
+	}
+	if (node.type === 'named-block' || node.type === 'directive') {
+		return `${node.type}|${node.name}`;
+	}
+	return null;
+}
+
+/**
+ * Structure of a node without its values, siblings only loop together when it is the same
+ */
+function skeleton(node: JuniperNode, isItem = true): string {
+	const { inactive, protect, quoted, list, annotations, comments, trailingComment } = node;
+	return JSON.stringify([
+		node.type,
+		isItem && node.type === 'block' ? null : node.name,
+		[inactive, protect, quoted, list, annotations, comments, trailingComment],
+		node.children.map((child) => skeleton(child, false)),
+	]);
+}
+
+/**
+ * Find the runs of consecutive, identically shaped siblings that can become loops
+ * @param {Object} parent - The node whose children to group
+ * @return {Array} - The groups with at least two items
+ */
+function findLoopGroups(parent: JuniperNode): LoopGroup[] {
+	const groups: LoopGroup[] = [];
+	let run: JuniperNode[] = [];
+	let runStart = 0;
+
+	const closeRun = () => {
+		if (run.length > 1) {
+			const [first] = run;
+			const variable = toIdentifier(
+				first.type === 'block' ? (parent.name ?? '').replace(/s$/, '') : first.name ?? '',
+			);
+			const collectionKey =
+				first.type === 'block' ? toIdentifier(parent.name ?? '') : pluralize(variable);
+			groups.push({ variable, collectionKey, items: run, start: runStart });
+		}
+	};
+
+	parent.children.forEach((child, index) => {
+		const key = loopKey(child, parent);
+		const previous = run[run.length - 1];
+		if (
+			key &&
+			previous &&
+			loopKey(previous, parent) === key &&
+			skeleton(previous) === skeleton(child)
+		) {
+			run.push(child);
+			return;
+		}
+		closeRun();
+		run = key ? [child] : [];
+		runStart = index;
+	});
+	closeRun();
+
+	// Several runs of the same statement need distinct collections
+	const seen: Record<string, number> = {};
+	groups.forEach((group) => {
+		seen[group.collectionKey] = (seen[group.collectionKey] ?? 0) + 1;
+		if (seen[group.collectionKey] > 1) {
+			group.collectionKey = `${group.collectionKey}_${seen[group.collectionKey]}`;
+		}
+	});
+
+	return groups;
+}
+
+/**
+ * Template for a value that differs between loop items
+ * @param {string[]} values - The value of every item, in order
+ * @param {string[]} names - The identifier of every item, in order
+ * @param {string} variable - The loop variable
+ * @param {string} key - Where the value is stored on the item
+ * @return {string} - The value with Jinja2 expressions in place of what varies
+ */
+function templateValue(values: string[], names: string[], variable: string, key: string): string {
+	if (values.every((value) => value === values[0])) return values[0];
+
+	// Values derived from the item's own name, e.g. "irb.v10" in the "v10" item
+	const parts = values.map((value, index) => value.split(names[index]));
+	const [prefix, suffix] = parts[0];
+	if (
+		names.every(Boolean) &&
+		parts.every((part) => part.length === 2 && part[0] === prefix && part[1] === suffix)
+	) {
+		return `${prefix}{{${variable}.name}}${suffix}`;
+	}
+
+	return `{{${variable}.${key}}}`;
+}
+
+/**
+ * Build the loop body from all items at once, turning every value that varies into a variable
+ * @param {Array} nodes - The corresponding node of every item
+ * @param {Array} itemVariables - The variables of every item, filled in as values are found
+ * @param {string[]} names - The identifier of every item
+ * @param {string} variable - The loop variable
+ * @param {string[]} keyPath - Where values of this node are stored on the item
+ * @return {Object} - The templated node
+ */
+function buildLoopBody(
+	nodes: JuniperNode[],
+	itemVariables: Array<Record<string, unknown>>,
+	names: string[],
+	variable: string,
+	keyPath: string[],
+): JuniperNode {
+	const [first] = nodes;
+	const body: JuniperNode = { ...first, children: [] };
+
+	const templated = (values: string[], key: string[]) => {
+		const result = templateValue(values, names, variable, key.join('.'));
+		if (result.includes(`{{${variable}.${key.join('.')}}}`)) {
+			values.forEach((value, index) => _.set(itemVariables[index], key, value));
+		}
+		return result;
+	};
+
+	if (!keyPath.length) {
+		// The item itself, its identifier is always a variable
+		if (first.type === 'block') {
+			body.name = `{{${variable}.name}}`;
+		} else {
+			body.value = `{{${variable}.name}}`;
+		}
+	} else if (first.value !== null) {
+		const valueKey = first.type === 'named-block' ? [...keyPath, 'name'] : keyPath;
+		body.value = templated(
+			nodes.map(({ value }) => value ?? ''),
+			valueKey,
+		);
+	}
+
+	// Children are keyed by their hierarchy as extracted variables are, e.g. "unit._0". A
+	// statement the items name differently, e.g. "unit 0" and "unit 1", is keyed by its name
+	// and holds the value as "name". Repeated keys are numbered, e.g. "address", "address_2".
+	const counts: Record<string, number> = {};
+	body.children = first.children.map((child, index) => {
+		const children = nodes.map((node) => node.children[index]);
+		const label = nodeLabel(child);
+		const keys = children.every((other) => nodeLabel(other) === label)
+			? labelKeys(label)
+			: [toIdentifier(child.name ?? child.type)];
+		const id = keys.join('.');
+		counts[id] = (counts[id] ?? 0) + 1;
+		if (counts[id] > 1) keys[keys.length - 1] = `${keys[keys.length - 1]}_${counts[id]}`;
+
+		return buildLoopBody(children, itemVariables, names, variable, [...keyPath, ...keys]);
+	});
+
+	return body;
+}
+
+/**
+ * Hierarchy segments of a node used in collection paths, e.g. ["group", "EBGP"] for "group EBGP"
+ */
+function collectionSegments(node: JuniperNode): string[] {
+	if (node.type === 'root') return [];
+	if (node.type === 'named-block' || node.type === 'pattern-block') {
+		return [toIdentifier(node.name ?? ''), toIdentifier(node.value ?? '')];
+	}
+	return [toIdentifier(node.name ?? '')];
+}
+
+/**
+ * Whether one list of variable keys is the other or lies below it, so both cannot be set
+ */
+function overlaps(a: string[], b: string[]): boolean {
+	const length = Math.min(a.length, b.length);
+	return _.isEqual(a.slice(0, length), b.slice(0, length));
+}
+
+/**
+ * Generate a Jinja2 template by turning repeated sibling structures into loops
+ *
+ * Any run of two or more consecutive siblings of the same kind and shape becomes a loop: the
+ * entries of `interfaces`, `vlans` and similar containers, and repeated named statements such
+ * as `unit`, `neighbor`, `term`, `prefix-list` or `route`. Collection paths follow the
+ * hierarchy (e.g. `protocols.bgp.group.EBGP.neighbors`) and every value that differs between
+ * items becomes an item variable, keyed below the item as `extractVariables` keys it.
+ *
+ * When a diff is given, only loops containing a changed node are generated, and the other
+ * values it changes become variables keyed by their hierarchy as `extractVariables` keys them,
+ * e.g. `{{system.host_name}}`. A loop whose collection would take the place of such a value,
+ * e.g. the `interfaces` loop for a changed `lo0` address, is left out so the value keeps it.
+ * @param {Object} ast - The AST to template
+ * @param {Array} diff - Optional differences from `diffAst`, whose paths point into `ast`
+ * @return {Object} - The template AST, the variables that render it back to `ast`, and the loops
+ */
+export function generateJinja2(ast: JuniperNode, diff?: JuniperDiff[]): Jinja2Template {
+	const changedPaths = diff?.filter(({ type }) => type !== 'add').map(({ path }) => path.join('.'));
+	const changedValues = new Set(
+		diff
+			?.filter(({ type, path }) => type === 'modify' && path[path.length - 1] === 'value')
+			.map(({ path }) => path.join('.')),
+	);
+	// Loops left out, by the path of their parent and the index of their first item
+	const skipped = new Set<string>();
+
+	const isChanged = (nodePath: string[]) => {
+		if (!changedPaths) return true;
+		const prefix = nodePath.join('.');
+		return changedPaths.some((path) => path === prefix || path.startsWith(prefix + '.'));
+	};
+
+	const build = () => {
+		const variables: Record<string, unknown> = {};
+		const loops: Array<Jinja2Loop & { id: string; keys: string[] }> = [];
+		const values: Array<{ keys: string[]; value: VariableValue }> = [];
+
+		const visit = (
+			node: JuniperNode,
+			nodePath: string[],
+			segments: string[],
+			hierarchy: string[],
+			keys: string[],
+		): JuniperNode => {
+			const groups = findLoopGroups(node).filter(
+				({ items, start }) =>
+					!skipped.has(`${nodePath.join('.')}@${start}`) &&
+					items.some((_item, offset) =>
+						isChanged([...nodePath, 'children', (start + offset).toString()]),
+					),
+			);
+			const children: JuniperNode[] = [];
+
+			node.children.forEach((child, index) => {
+				const group = groups.find(({ start }) => start === index);
+				if (group) {
+					const { variable, collectionKey, items, start } = group;
+					// Container entries are keyed by the container itself, e.g. "interfaces"
+					const collection = [
+						...(items[0].type === 'block' ? segments.slice(0, -1) : segments),
+						collectionKey,
+					];
+					const names = items.map(itemName);
+					const itemVariables = names.map((name) => ({ name }) as Record<string, unknown>);
+					const body = buildLoopBody(items, itemVariables, names, variable, []);
+
+					_.set(variables, collection, itemVariables);
+					loops.push({
+						id: `${nodePath.join('.')}@${start}`,
+						keys: collection,
+						collection: collection.join('.'),
+						variable,
+						hierarchy,
+						count: items.length,
+					});
+					children.push(
+						createNode('flag', `{% for ${variable} in ${collection.join('.')} %}`),
+						body,
+						createNode('flag', '{% endfor %}'),
+					);
+					return;
+				}
+
+				if (groups.some(({ start, items }) => index > start && index < start + items.length)) {
+					return;
+				}
+
+				const childSegments = [...segments, ...collectionSegments(child)];
+				const label = [child.name, child.type === 'block' ? null : child.value]
+					.filter((part) => part !== null)
+					.join(' ');
+				const childPath = [...nodePath, 'children', index.toString()];
+				const childKeys = [...keys, ...labelKeys(nodeLabel(child))];
+				const templated = visit(child, childPath, childSegments, [...hierarchy, label], childKeys);
+				if (child.type === 'directive' && changedValues.has([...childPath, 'value'].join('.'))) {
+					const expression = childKeys.join('.');
+					templated.value = child.list ? `{{${expression} | join(' ')}}` : `{{${expression}}}`;
+					values.push({ keys: childKeys, value: toVariableValue(child) });
+				}
+				children.push(templated);
+			});
+
+			return { ...node, children };
+		};
+
+		return { ast: visit(ast, [], [], [], []), variables, loops, values };
+	};
+
+	for (;;) {
+		const { ast: template, variables, loops, values } = build();
+
+		// Values share the document with the loop collections, a loop gives way to the values
+		// and to the loops found before it
+		const conflicting = loops.filter(
+			({ keys }, index) =>
+				values.some((value) => overlaps(value.keys, keys)) ||
+				loops.slice(0, index).some((other) => overlaps(other.keys, keys)),
+		);
+		if (conflicting.length) {
+			conflicting.forEach(({ id }) => skipped.add(id));
+			continue;
+		}
+
+		values.forEach(({ keys, value }, index) => {
+			const other = values.slice(0, index).find((previous) => overlaps(previous.keys, keys));
+			if (other) {
+				throw new Error(
+					`The changed values of ${other.keys.join('.')} and ${keys.join('.')} need the same variable`,
+				);
+			}
+			_.set(variables, keys, value);
+		});
+
+		return {
+			ast: template,
+			variables,
+			loops: loops.map((loop) => _.omit(loop, ['id', 'keys'])),
+		};
+	}
+}
 
 function findLoopOpportunities(diff: JuniperDiff[]) {
 	return diff.reduce(
@@ -83,6 +460,14 @@ function flattenObjectReverse(obj: object, prefix = '', res: any = {}) {
 	return res;
 }
 
+/**
+ * Convert an AST into a Jinja2 template AST looping over `interface.physical`, the interface
+ * variables come from `addInterfaceProp`. `generateJinja2` loops over any repeated structure.
+ * @param {Object} ast - The AST to template
+ * @param {Array} diff - Positional differences from `diffAst`, whose paths point into `ast`
+ * @param {Object} variables - The variables, e.g. `{ interface }`
+ * @return {Object} - The template AST
+ */
 export function convertToJinja2Ast(
 	ast: JuniperNode,
 	diff: JuniperDiff[],
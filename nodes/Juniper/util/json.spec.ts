@@ -0,0 +1,159 @@
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { parseJsonConfig, parseJsonConfigWithDiagnostics } from './json';
+
+const json = `{
+    "configuration" : {
+        "@" : {
+            "junos:changed-seconds" : "1700000000"
+        },
+        "system" : {
+            "host-name" : "sw-01",
+            "@host-name" : {
+                "junos:comment" : "/* managed by inventory */"
+            },
+            "services" : {
+                "ssh" : [null]
+            }
+        },
+        "interfaces" : {
+            "interface" : [
+            {
+                "name" : "ge-0/0/0",
+                "description" : "to core",
+                "unit" : [
+                {
+                    "name" : 0,
+                    "family" : {
+                        "inet" : {
+                            "address" : [
+                            {
+                                "name" : "10.0.0.1/31"
+                            }
+                            ]
+                        }
+                    }
+                }
+                ]
+            },
+            {
+                "@" : {
+                    "inactive" : true
+                },
+                "name" : "ge-0/0/1",
+                "unit" : [
+                {
+                    "name" : "0",
+                    "family" : {
+                        "ethernet-switching" : {
+                            "vlan" : {
+                                "members" : ["v10", "v20"]
+                            }
+                        }
+                    }
+                }
+                ]
+            }
+            ]
+        },
+        "vlans" : {
+            "@" : {
+                "operation" : "replace"
+            },
+            "vlan" : [
+            {
+                "name" : "v10",
+                "vlan-id" : "10"
+            }
+            ]
+        }
+    }
+}`;
+
+const config = `system {
+    /* managed by inventory */
+    host-name sw-01;
+    services {
+        ssh;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description "to core";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+    inactive: ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 ];
+                }
+            }
+        }
+    }
+}
+replace: vlans {
+    v10 {
+        vlan-id 10;
+    }
+}`;
+
+describe('json', () => {
+	describe('parseJsonConfig', () => {
+		it('produces the same AST as the curly-brace format', () => {
+			expect(diffAst(parseJuniperConfig(config), parseJsonConfig(json))).toEqual([]);
+		});
+
+		it('reports where the document is malformed', () => {
+			const { diagnostics } = parseJsonConfigWithDiagnostics('{\n  "configuration": {\n}');
+
+			expect(diagnostics).toHaveLength(1);
+			expect(diagnostics[0].line).toBe(3);
+		});
+
+		it('requires a configuration object', () => {
+			expect(parseJsonConfigWithDiagnostics('{}').diagnostics[0].message).toBe(
+				'No "configuration" object found',
+			);
+		});
+	});
+
+	describe('astToConfig', () => {
+		it('round-trips through the JSON format', () => {
+			const ast = parseJuniperConfig(config);
+			const output = JSON.parse(astToConfig(ast, { format: 'json' }));
+
+			expect(output.configuration.system).toEqual({
+				'host-name': 'sw-01',
+				'@host-name': { 'junos:comment': '/* managed by inventory */' },
+				services: { ssh: [null] },
+			});
+			expect(output.configuration.interfaces.interface[1]['@']).toEqual({ inactive: true });
+			expect(diffAst(ast, parseJsonConfig(JSON.stringify(output)))).toEqual([]);
+		});
+
+		it('round-trips prefix lists and one-line statements', () => {
+			const source = `policy-options {
+    prefix-list PL {
+        10.0.0.0/8;
+        192.168.0.0/16;
+    }
+}
+routing-options {
+    static {
+        route 0.0.0.0/0 next-hop 10.0.0.1;
+        route 10.6.0.0/16 discard;
+    }
+}`;
+			const output = astToConfig(parseJuniperConfig(source), { format: 'json' });
+
+			expect(JSON.parse(output).configuration['policy-options']['prefix-list']).toEqual([
+				{ name: 'PL', 'prefix-list-item': [{ name: '10.0.0.0/8' }, { name: '192.168.0.0/16' }] },
+			]);
+			expect(astToConfig(parseJsonConfig(output))).toBe(source);
+		});
+	});
+});
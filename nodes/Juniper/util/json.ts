@@ -0,0 +1,229 @@
+import { createDiagnostic, createNode, JuniperNode, ParseDiagnostic, ParseResult } from './juniper';
+import { LIST_STATEMENTS } from './schema';
+import { astToElements, elementsToNodes, XmlElement } from './xml';
+
+/**
+ * Junos JSON Configuration Format
+ *
+ * `show configuration | display json` and the REST API encode the XML configuration as JSON:
+ * leaves are strings, flags are `[null]`, keyed and repeated elements are arrays, and the
+ * attributes of an object live in its `"@"` member, or in `"@name"` next to a leaf. This module
+ * maps that shape onto the XML element tree, so both formats share one conversion to the AST.
+ */
+
+type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+
+interface JsonObject {
+	[key: string]: JsonValue;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Element attributes from a JSON attribute object, e.g. `{ "inactive": true }`
+ */
+function toAttributes(value: JsonValue | undefined): Record<string, string> {
+	if (!isObject(value)) return {};
+	return Object.fromEntries(
+		Object.entries(value)
+			.filter(([name]) => name !== 'junos:comment')
+			.map(([name, attribute]) => [name, attribute === true ? name : String(attribute)]),
+	);
+}
+
+/**
+ * Annotations stored as `"junos:comment"` attributes, which can be a single string or a list
+ */
+function toComments(value: JsonValue | undefined): XmlElement[] {
+	if (!isObject(value) || value['junos:comment'] === undefined) return [];
+	const comments = [value['junos:comment']].flat();
+	return comments.map((text) => ({
+		tag: 'junos:comment',
+		attributes: {},
+		children: [],
+		text: String(text),
+	}));
+}
+
+/**
+ * Turn one member of a JSON object into elements
+ * @param {string} tag - The member name
+ * @param {*} value - The member value
+ * @param {Object} attributes - The `"@tag"` attributes of the member
+ * @return {Array} - The elements, one per array item
+ */
+function jsonToElements(tag: string, value: JsonValue, attributes?: JsonValue): XmlElement[] {
+	const leaf = (text: string): XmlElement[] => [
+		...toComments(attributes),
+		{ tag, attributes: toAttributes(attributes), children: [], text },
+	];
+
+	if (Array.isArray(value)) {
+		// A flag is encoded as [null]
+		if (value.length === 1 && value[0] === null) return leaf('');
+		return value.flatMap((item) => jsonToElements(tag, item, attributes));
+	}
+
+	if (isObject(value)) {
+		return [
+			...toComments(value['@']),
+			{ tag, attributes: toAttributes(value['@']), children: objectToElements(value), text: '' },
+		];
+	}
+
+	return leaf(value === null ? '' : String(value));
+}
+
+/**
+ * Turn the members of a JSON object into elements, skipping attribute members
+ */
+function objectToElements(object: JsonObject): XmlElement[] {
+	return Object.entries(object)
+		.filter(([key]) => !key.startsWith('@'))
+		.flatMap(([key, value]) => jsonToElements(key, value, object[`@${key}`]));
+}
+
+/**
+ * Find the `configuration` object, which some APIs wrap in another object
+ */
+function findConfiguration(value: JsonValue): JsonObject | undefined {
+	if (!isObject(value)) return undefined;
+	if (isObject(value.configuration)) return value.configuration;
+	for (const member of Object.values(value)) {
+		const found = findConfiguration(Array.isArray(member) ? member[0] : member);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+/**
+ * Parse Junos configuration JSON into an AST
+ * @param {string} json - The JSON document, with a `configuration` object
+ * @return {Object} - The AST representation of the config
+ */
+export function parseJsonConfig(json: string): JuniperNode {
+	return parseJsonConfigWithDiagnostics(json).ast;
+}
+
+/**
+ * Parse Junos configuration JSON into an AST, reporting a document that could not be read
+ * @param {string} json - The JSON document, with a `configuration` object
+ * @return {Object} - The AST and the diagnostics
+ */
+export function parseJsonConfigWithDiagnostics(json: string): ParseResult {
+	const lines = json.split('\n');
+	const diagnostics: ParseDiagnostic[] = [];
+	let configuration: JsonObject | undefined;
+
+	try {
+		configuration = findConfiguration(JSON.parse(json));
+		if (!configuration) {
+			diagnostics.push(
+				createDiagnostic(lines, 'error', 'No "configuration" object found', { line: 1, column: 1 }),
+			);
+		}
+	} catch (error) {
+		// JSON.parse reports the offset of the error, turn it into a line and column
+		const offset = Number(/position (\d+)/.exec(error.message)?.[1] ?? 0);
+		const before = json.slice(0, offset).split('\n');
+		diagnostics.push(
+			createDiagnostic(lines, 'error', error.message, {
+				line: before.length,
+				column: before[before.length - 1].length + 1,
+			}),
+		);
+	}
+
+	const ast = createNode(
+		'root',
+		null,
+		null,
+		elementsToNodes(configuration ? objectToElements(configuration) : [], null),
+	);
+
+	return { ast, diagnostics };
+}
+
+/**
+ * The JSON value of an element: a string for leaves, [null] for flags and an object otherwise
+ */
+function elementValue(element: XmlElement): JsonValue {
+	if (!element.children.length) return element.text ? element.text : [null];
+	return elementsToObject(element.children);
+}
+
+/**
+ * JSON attribute object for element attributes, tags become `true`
+ */
+function fromAttributes(element: XmlElement, comments: string[]): JsonObject | undefined {
+	const attributes: JsonObject = Object.fromEntries(
+		Object.entries(element.attributes).map(([name, value]) => [
+			name,
+			value === name ? true : value,
+		]),
+	);
+	if (comments.length) {
+		attributes['junos:comment'] = comments.length === 1 ? comments[0] : comments;
+	}
+	return Object.keys(attributes).length ? attributes : undefined;
+}
+
+/**
+ * Turn sibling elements into a JSON object, grouping repeated and keyed elements into arrays
+ * @param {Array} elements - The sibling elements, in document order
+ * @return {Object} - The JSON object
+ */
+function elementsToObject(elements: XmlElement[]): JsonObject {
+	const object: JsonObject = {};
+	let comments: string[] = [];
+
+	const groups = new Map<string, Array<{ element: XmlElement; comments: string[] }>>();
+	for (const element of elements) {
+		if (element.tag === 'junos:comment') {
+			comments.push(element.text);
+			continue;
+		}
+		groups.set(element.tag, [...(groups.get(element.tag) ?? []), { element, comments }]);
+		comments = [];
+	}
+
+	for (const [tag, members] of groups) {
+		const keyed = members.some(({ element }) =>
+			element.children.some((child) => child.tag === 'name'),
+		);
+		const isLeafList = LIST_STATEMENTS.has(tag) && members.every(({ element }) => element.text);
+
+		if (keyed || isLeafList || members.length > 1) {
+			object[tag] = members.map(({ element, comments: itemComments }) => {
+				const value = elementValue(element);
+				const attributes = fromAttributes(element, itemComments);
+				if (isObject(value) && attributes) return { '@': attributes, ...value };
+				if (attributes) object[`@${tag}`] = attributes;
+				return value;
+			});
+			continue;
+		}
+
+		const [{ element, comments: itemComments }] = members;
+		const value = elementValue(element);
+		const attributes = fromAttributes(element, itemComments);
+		if (isObject(value)) {
+			object[tag] = attributes ? { '@': attributes, ...value } : value;
+		} else {
+			object[tag] = value;
+			if (attributes) object[`@${tag}`] = attributes;
+		}
+	}
+
+	return object;
+}
+
+/**
+ * Convert AST to Junos configuration JSON
+ * @param {Object} ast - The AST to convert
+ * @return {string} - A `{ "configuration": ... }` document
+ */
+export function astToJson(ast: JuniperNode): string {
+	return JSON.stringify({ configuration: elementsToObject(astToElements(ast)) }, null, 4);
+}
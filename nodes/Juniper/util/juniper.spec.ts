@@ -0,0 +1,242 @@
+import {
+	astToConfig,
+	detectConfigFormat,
+	diffAst,
+	parseConfigWithDiagnostics,
+	parseJuniperConfig,
+	parseJuniperConfigWithDiagnostics,
+} from './juniper';
+
+const config = `/* Managed by automation */
+system {
+    host-name sw-01;
+    location "rack #4";
+    inactive: services {
+        telnet;
+    }
+}
+interfaces {
+    protect: ge-0/0/0 {
+        description "uplink; to core";
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 v30 ];
+                }
+            }
+        }
+    }
+}
+routing-options {
+    static {
+        route 0.0.0.0/0 next-hop [ 10.0.0.1 10.0.0.2 ];
+    }
+}`;
+
+describe('juniper', () => {
+	describe('parseJuniperConfig', () => {
+		it('keeps hashes and semicolons inside quoted strings', () => {
+			const ast = parseJuniperConfig(config);
+			const [location] = ast.children[0].children.filter(({ name }) => name === 'location');
+
+			expect(location).toMatchObject({ type: 'directive', value: 'rack #4', quoted: true });
+		});
+
+		it('parses lists, tags and annotations into node fields', () => {
+			const ast = parseJuniperConfig(config);
+			const [system, interfaces] = ast.children;
+			const members = interfaces.children[0].children[1].children[0].children[0].children[0];
+
+			expect(system.annotations).toEqual(['Managed by automation']);
+			expect(system.children[2]).toMatchObject({ name: 'services', inactive: true });
+			expect(interfaces.children[0]).toMatchObject({ name: 'ge-0/0/0', protect: true });
+			expect(members).toMatchObject({ name: 'members', value: 'v10 v20 v30', list: true });
+		});
+
+		it('joins statements that span several lines', () => {
+			const ast = parseJuniperConfig('system {\n    host-name\n        sw-01;\n}');
+
+			expect(ast.children[0].children[0]).toMatchObject({ name: 'host-name', value: 'sw-01' });
+		});
+
+		it('keeps line comments in place', () => {
+			const source = [
+				'## Last changed: 2024-05-01',
+				'# generated',
+				'system {',
+				'    ntp; # keep time',
+				'    # end of system',
+				'}',
+			].join('\n');
+			const ast = parseJuniperConfig(source);
+
+			expect(ast.children[0]).toMatchObject({
+				comments: ['## Last changed: 2024-05-01', '# generated'],
+				closingComments: ['# end of system'],
+			});
+			expect(ast.children[0].children[0].trailingComment).toBe('# keep time');
+			expect(astToConfig(ast)).toBe(source);
+		});
+	});
+
+	describe('parseJuniperConfigWithDiagnostics', () => {
+		it('records the source span of every node', () => {
+			const { ast, diagnostics } = parseJuniperConfigWithDiagnostics(config);
+			const interfaces = ast.children[1];
+
+			expect(diagnostics).toEqual([]);
+			expect(interfaces.span).toEqual({
+				start: { line: 9, column: 1 },
+				end: { line: 20, column: 2 },
+			});
+			expect(interfaces.children[0].children[0].span).toEqual({
+				start: { line: 11, column: 9 },
+				end: { line: 11, column: 39 },
+			});
+		});
+
+		it('reports unbalanced braces and missing semicolons', () => {
+			const { diagnostics } = parseJuniperConfigWithDiagnostics(
+				'system {\n    host-name sw-01\n}\n}\ninterfaces {',
+			);
+
+			expect(diagnostics).toEqual([
+				{
+					severity: 'error',
+					line: 2,
+					column: 20,
+					message: 'Missing ";" after statement',
+					snippet: 'host-name sw-01',
+				},
+				{ severity: 'error', line: 4, column: 1, message: 'Unexpected "}"', snippet: '}' },
+				{
+					severity: 'error',
+					line: 5,
+					column: 1,
+					message: 'Missing "}" for "interfaces"',
+					snippet: 'interfaces {',
+				},
+			]);
+		});
+	});
+
+	describe('astToConfig', () => {
+		it('reproduces the source config', () => {
+			expect(astToConfig(parseJuniperConfig(config))).toBe(config);
+		});
+
+		it('lays out the text as asked', () => {
+			const ast = parseJuniperConfig(config);
+			const text = astToConfig(ast, {
+				indent: 'tab',
+				blankLines: 1,
+				inactive: false,
+				comments: false,
+			});
+
+			expect(
+				text.startsWith('system {\n\thost-name sw-01;\n\tlocation "rack #4";\n}\n\ninterfaces {'),
+			).toBe(true);
+			expect(astToConfig(ast, { indent: 2 }).split('\n')[2]).toBe('  host-name sw-01;');
+		});
+	});
+
+	describe('parseConfigWithDiagnostics', () => {
+		it('detects the format from the content', () => {
+			expect(detectConfigFormat('<configuration/>')).toBe('xml');
+			expect(detectConfigFormat('{ "configuration": {} }')).toBe('json');
+			expect(detectConfigFormat('# r1\nset system host-name r1\ndelete snmp\n')).toBe('set');
+			expect(detectConfigFormat(config)).toBe('text');
+		});
+
+		it('parses every format into the same AST', () => {
+			const { ast } = parseConfigWithDiagnostics('system {\n    host-name r1;\n}');
+
+			for (const config of [
+				'set system host-name r1',
+				'<configuration><system><host-name>r1</host-name></system></configuration>',
+			]) {
+				expect(diffAst(parseConfigWithDiagnostics(config).ast, ast)).toEqual([]);
+			}
+		});
+	});
+
+	describe('diffAst', () => {
+		const base = `interfaces {
+    ge-0/0/1 {
+        description access-1;
+    }
+    ge-0/0/2 {
+        description access-2;
+    }
+    ge-0/0/3 {
+        description access-3;
+    }
+}`;
+
+		it('matches siblings by identity', () => {
+			const changed = base
+				.replace('interfaces {', 'interfaces {\n    ge-0/0/0 {\n        description uplink;\n    }')
+				.replace('access-3', 'spare');
+
+			const diff = diffAst(parseJuniperConfig(base), parseJuniperConfig(changed), {
+				matchBy: 'identity',
+			});
+
+			expect(diff.map(({ type, absolutePath }) => [type, absolutePath.join(' > ')])).toEqual([
+				['add', 'interfaces > ge-0/0/0'],
+				['modify', 'interfaces > ge-0/0/3 > description'],
+			]);
+			expect(diff[1]).toMatchObject({ property: 'value', oldValue: 'access-3', newValue: 'spare' });
+		});
+
+		it('reports siblings that changed order as moves', () => {
+			const ast = parseJuniperConfig(base);
+			const reordered = parseJuniperConfig(base);
+			const [first, second, third] = reordered.children[0].children;
+			reordered.children[0].children = [first, third, second];
+
+			const diff = diffAst(ast, reordered, {
+				matchBy: 'identity',
+			});
+
+			expect(diff).toEqual([
+				{
+					type: 'move',
+					path: ['children', '0', 'children', '1'],
+					absolutePath: ['interfaces', 'ge-0/0/2'],
+					oldIndex: 1,
+					newIndex: 2,
+					nodeType: 'block',
+				},
+			]);
+		});
+
+		it('reports an added directive next to one with the same name', () => {
+			const diff = diffAst(
+				parseJuniperConfig('family inet {\n    address 10.0.0.1/24;\n}'),
+				parseJuniperConfig('family inet {\n    address 10.0.0.1/24;\n    address 10.0.1.1/24;\n}'),
+				{ matchBy: 'identity' },
+			);
+
+			expect(diff).toHaveLength(1);
+			expect(diff[0]).toMatchObject({ type: 'add', absolutePath: ['family inet', 'address'] });
+		});
+
+		it('ignores comments unless asked to compare them', () => {
+			const commented = `## Last commit: 2024-05-01 10:00:00 UTC\n${base.replace(
+				'description access-1;',
+				'description access-1; # patched',
+			)}`;
+			const [oldAst, newAst] = [parseJuniperConfig(base), parseJuniperConfig(commented)];
+
+			expect(diffAst(oldAst, newAst)).toEqual([]);
+			expect(diffAst(oldAst, newAst, { matchBy: 'identity' })).toEqual([]);
+			expect(
+				diffAst(oldAst, newAst, { matchBy: 'identity', ignoreProperties: ['span'] }).map(
+					({ property }) => property,
+				),
+			).toEqual(['comments', 'trailingComment']);
+		});
+	});
+});
@@ -1,4 +1,8 @@
 import _ from 'lodash';
+import { astToJson, parseJsonConfigWithDiagnostics } from './json';
+import { astToSetConfig, parseSetConfigWithDiagnostics } from './set';
+import { SourcePosition, Token, tokenize } from './tokenizer';
+import { astToXml, parseXmlConfigWithDiagnostics } from './xml';
 
 /**
  * Generic Juniper Configuration Parser
@@ -12,6 +16,18 @@ export interface JuniperNode {
 	name: string | null;
 	value: string | null;
 	children: JuniperNode[];
+	inactive?: boolean;
+	protect?: boolean;
+	replace?: boolean;
+	delete?: boolean;
+	quoted?: boolean;
+	list?: boolean;
+	annotations?: string[];
+	comments?: string[]; // `#` comment lines before the statement, hashes included
+	trailingComment?: string; // `#` comment after the statement on the same line
+	closingComments?: string[]; // `#` comment lines before the closing brace of a block
+	inheritedFrom?: string; // Group the node was inherited from, see expandGroups
+	span?: SourceSpan;
 }
 
 /**
@@ -22,7 +38,7 @@ export interface JuniperNode {
  * @param {Array} children - Child nodes
  * @return {Object} - A new AST node
  */
-const createNode = (
+export const createNode = (
 	type: string,
 	name: string | null = null,
 	value: string | null = null,
@@ -34,177 +50,541 @@ const createNode = (
 	children: [...children],
 });
 
+export interface SourceSpan {
+	start: SourcePosition;
+	end: SourcePosition;
+}
+
+export interface ParseDiagnostic {
+	severity: 'error' | 'warning';
+	line: number;
+	column: number;
+	message: string;
+	snippet: string;
+}
+
+export interface ParseResult {
+	ast: JuniperNode;
+	diagnostics: ParseDiagnostic[];
+}
+
+type StatementTag = 'inactive' | 'protect' | 'replace' | 'delete';
+
+/**
+ * Statement prefixes that map to a boolean flag on the node
+ */
+const TAGS: Record<string, StatementTag> = {
+	'inactive:': 'inactive',
+	'protect:': 'protect',
+	'replace:': 'replace',
+	'delete:': 'delete',
+};
+
+interface ParserState {
+	tokens: Token[];
+	index: number;
+	lines: string[];
+	diagnostics: ParseDiagnostic[];
+	// Comments before a closing brace, which have no statement to belong to
+	closingComments: string[];
+}
+
+interface StatementPart {
+	type: 'word' | 'string' | 'list';
+	text: string;
+	items?: Token[];
+}
+
+/**
+ * Create a diagnostic pointing at a position in the source
+ * @param {string[]} lines - The source lines, used for the snippet
+ * @param {string} severity - Whether the AST is incomplete ('error') or just suspicious ('warning')
+ * @param {string} message - What went wrong
+ * @param {Object} position - Where it went wrong
+ * @return {Object} - The diagnostic
+ */
+export function createDiagnostic(
+	lines: string[],
+	severity: ParseDiagnostic['severity'],
+	message: string,
+	{ line, column }: SourcePosition,
+): ParseDiagnostic {
+	return { severity, line, column, message, snippet: (lines[line - 1] ?? '').trim() };
+}
+
 /**
  * Parse a Juniper configuration string into an AST
  * @param {string} config - The configuration string to parse
  * @return {Object} - The AST representation of the config
  */
 export function parseJuniperConfig(config: string): JuniperNode {
-	// Preprocess the config
-	// - Remove empty lines
-	// - Remove comments
-	// - Trim whitespace
-	const lines = config
-		.split('\n')
-		.map((line) => line.replace(/#.*$/, '').trim()) // Remove comments
-		.filter((line) => line.length > 0);
+	return parseJuniperConfigWithDiagnostics(config).ast;
+}
+
+/**
+ * Parse a Juniper configuration string into an AST, reporting anything that could not be parsed
+ * @param {string} config - The configuration string to parse
+ * @return {Object} - The AST and the diagnostics, in source order
+ */
+export function parseJuniperConfigWithDiagnostics(config: string): ParseResult {
+	const lines = config.split('\n');
+	const { tokens, errors } = tokenize(config);
+	const diagnostics = errors.map(({ message, ...position }) =>
+		createDiagnostic(lines, 'error', message, position),
+	);
 
 	// Root node of our AST
 	const ast = createNode('root');
+	const end = { line: lines.length, column: lines[lines.length - 1].length + 1 };
+	ast.span = { start: { line: 1, column: 1 }, end };
+
+	parseBlock({ tokens, index: 0, lines, diagnostics, closingComments: [] }, ast, true);
 
-	// Parse the lines
-	parseBlock(lines, 0, ast);
+	diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
 
-	return ast;
+	return { ast, diagnostics };
 }
 
 /**
- * Parse a block of configuration and add it to the parent node
- * @param {string[]} lines - All lines of the configuration
- * @param {number} startIndex - The starting line index for this block
+ * Parse statements into the parent node until the block closes
+ * @param {Object} state - The tokens, the current position and the diagnostics
  * @param {Object} parent - The parent node to add parsed nodes to
- * @return {number} - The index after this block ends
+ * @param {boolean} isRoot - Whether this is the top level, which has no closing brace
  */
-function parseBlock(lines: string[], startIndex: number, parent: any): number {
-	let i = startIndex;
+function parseBlock(state: ParserState, parent: JuniperNode, isRoot = false): void {
+	const { tokens, lines, diagnostics } = state;
 
-	while (i < lines.length) {
-		const line = lines[i];
+	while (state.index < tokens.length) {
+		const token = tokens[state.index];
 
 		// Handle the end of a block
-		if (line === '}') {
-			return i + 1;
+		if (token.type === '}') {
+			state.index++;
+			if (!isRoot) {
+				if (parent.span) parent.span.end = { ...token.end };
+				takeClosingComments(state, parent);
+				return;
+			}
+			diagnostics.push(createDiagnostic(lines, 'error', 'Unexpected "}"', token));
+			continue;
 		}
 
-		// Generic rule for blocks with wildcards/patterns
-		// Matches patterns like "something <pattern> {"
-		const patternBlockMatch = line.match(/^(\S+)\s+(<[^>]+>)\s+{$/);
-		if (patternBlockMatch) {
-			const blockType = patternBlockMatch[1];
-			const pattern = patternBlockMatch[2];
-			const blockNode = createNode('pattern-block', blockType, pattern);
-			parent.children.push(blockNode);
-			i = parseBlock(lines, i + 1, blockNode);
-			continue;
+		const node = parseStatement(state);
+		if (node) {
+			parent.children.push(node);
 		}
+	}
 
-		// Generic rule for multi-word block headers ending with "{"
-		// This captures blocks like "system location {" or "unit 100 {"
-		const multiWordBlockMatch = line.match(/^(.+)\s+{$/);
-		if (multiWordBlockMatch) {
-			let blockHeader = multiWordBlockMatch[1].trim();
-			const parts = blockHeader.split(/\s+/);
-
-			if (parts.length === 1) {
-				// Simple block like "interfaces {"
-				const blockNode = createNode('block', parts[0]);
-				parent.children.push(blockNode);
-				i = parseBlock(lines, i + 1, blockNode);
-			} else {
-				// Complex block like "unit 100 {" or "family inet {"
-				const blockType = parts[0];
-				const blockValue = parts.slice(1).join(' ');
-				const blockNode = createNode('named-block', blockType, blockValue);
-				parent.children.push(blockNode);
-				i = parseBlock(lines, i + 1, blockNode);
-			}
+	takeClosingComments(state, parent);
+
+	if (!isRoot) {
+		const message = `Missing "}" for "${[parent.name, parent.value].filter(Boolean).join(' ')}"`;
+		diagnostics.push(createDiagnostic(lines, 'error', message, parent.span?.start ?? tokens[0]));
+		if (parent.span && tokens.length) parent.span.end = { ...tokens[tokens.length - 1].end };
+	}
+}
+
+/**
+ * Attach the comments collected before a closing brace, or the end of the file, to the block
+ */
+function takeClosingComments(state: ParserState, parent: JuniperNode) {
+	if (state.closingComments.length) {
+		parent.closingComments = state.closingComments;
+		state.closingComments = [];
+	}
+}
+
+/**
+ * The `#` comment after a statement on the same line, if there is one
+ */
+function takeTrailingComment(state: ParserState, terminator: Token): string | undefined {
+	const token = state.tokens[state.index];
+	if (token?.type !== 'comment' || token.line !== terminator.end.line) return undefined;
+	state.index++;
+	return token.text;
+}
+
+/**
+ * Parse a single statement, including its comments, annotations, tags and nested block
+ * @param {Object} state - The tokens, the current position and the diagnostics
+ * @return {Object|null} - The parsed node, or null if the statement was empty
+ */
+function parseStatement(state: ParserState): JuniperNode | null {
+	const { tokens, lines, diagnostics } = state;
+	const start = tokens[state.index];
+	const comments: string[] = [];
+	const annotations: string[] = [];
+	const tags: StatementTag[] = [];
+	const parts: StatementPart[] = [];
+	let last = start;
+
+	while (['annotation', 'comment'].includes(tokens[state.index]?.type)) {
+		const token = tokens[state.index++];
+		(token.type === 'comment' ? comments : annotations).push(token.text);
+	}
+
+	while (tokens[state.index]?.type === 'word' && TAGS[tokens[state.index].text]) {
+		tags.push(TAGS[tokens[state.index++].text]);
+	}
+
+	// Collect words, strings and lists up to the terminator
+	let terminator: Token | undefined;
+	while (state.index < tokens.length) {
+		const token = tokens[state.index];
+
+		if (token.type === '{' || token.type === ';') {
+			terminator = token;
+			state.index++;
+			break;
+		}
+
+		if (token.type === '}' || token.type === 'annotation') break;
+
+		// A comment inside a statement that spans lines has no place to go
+		if (token.type === 'comment') {
+			state.index++;
 			continue;
 		}
 
-		// Handle leaf nodes (ending with semicolon)
-		const leafMatch = line.match(/^(.+);$/);
-		if (leafMatch) {
-			const statement = leafMatch[1].trim();
-
-			// Check if it's a directive like "apply-groups something;"
-			if (statement.includes(' ')) {
-				const parts = statement.split(/\s+/);
-				const directive = parts[0];
-				const value = parts.slice(1).join(' ').replace(/"/g, '');
-				parent.children.push(createNode('directive', directive, value));
-			} else {
-				// It's a flag/property without a value like "primary;"
-				parent.children.push(createNode('flag', statement));
+		if (token.type === '[') {
+			const items: Token[] = [];
+			state.index++;
+			while (state.index < tokens.length && tokens[state.index].type !== ']') {
+				const item = tokens[state.index++];
+				if (item.type === 'word' || item.type === 'string') {
+					items.push(item);
+				} else {
+					const message = `Unexpected "${item.text}" in list`;
+					diagnostics.push(createDiagnostic(lines, 'error', message, item));
+				}
+			}
+			if (state.index >= tokens.length) {
+				diagnostics.push(createDiagnostic(lines, 'error', 'Missing "]"', token));
 			}
+			last = tokens[Math.min(state.index, tokens.length - 1)];
+			state.index++;
+			const text = items.map(formatToken).join(' ');
+			parts.push({ type: 'list', text: items.length ? `[ ${text} ]` : '[ ]', items });
+			continue;
+		}
 
-			i++;
+		if (token.type === ']') {
+			diagnostics.push(createDiagnostic(lines, 'error', 'Unexpected "]"', token));
+			state.index++;
 			continue;
 		}
 
-		// If we can't parse the line, just skip it
-		console.warn(`Warning: Could not parse line ${i + 1}: "${line}"`);
-		i++;
+		parts.push({ type: token.type as 'word' | 'string', text: token.text });
+		last = token;
+		state.index++;
 	}
 
-	return i;
+	if (!parts.length) {
+		state.closingComments.push(...comments);
+		if (annotations.length || tags.length || terminator) {
+			diagnostics.push(createDiagnostic(lines, 'warning', 'Empty statement', start));
+		}
+		return null;
+	}
+
+	if (!terminator) {
+		diagnostics.push(createDiagnostic(lines, 'error', 'Missing ";" after statement', last.end));
+	}
+
+	const node = createStatementNode(parts, terminator?.type === '{');
+	node.span = {
+		start: { line: start.line, column: start.column },
+		end: { ...(terminator ?? last).end },
+	};
+
+	if (comments.length) {
+		node.comments = comments;
+	}
+	if (annotations.length) {
+		node.annotations = annotations;
+	}
+	tags.forEach((tag) => {
+		node[tag] = true;
+	});
+
+	const trailingComment = terminator && takeTrailingComment(state, terminator);
+	if (trailingComment) {
+		node.trailingComment = trailingComment;
+	}
+
+	if (terminator?.type === '{') {
+		parseBlock(state, node);
+	}
+
+	return node;
+}
+
+/**
+ * Build the node for a statement from its parts
+ * @param {Array} parts - The words, strings and lists of the statement
+ * @param {boolean} isBlock - Whether the statement opens a block
+ * @return {Object} - The new node
+ */
+function createStatementNode(parts: StatementPart[], isBlock: boolean): JuniperNode {
+	const [name, ...rest] = parts;
+
+	if (!rest.length) {
+		// Simple block like "interfaces {" or a flag like "primary;"
+		return createNode(isBlock ? 'block' : 'flag', name.text);
+	}
+
+	let type = isBlock ? 'named-block' : 'directive';
+	let value = rest.map(formatPart).join(' ');
+	let quoted = false;
+	let list = false;
+
+	if (rest.length === 1 && rest[0].type === 'string') {
+		// Single quoted value like 'description "rack #4";'
+		value = rest[0].text;
+		quoted = true;
+	} else if (rest.length === 1 && rest[0].type === 'list' && !isBlock) {
+		// List value like "members [ a b c ];"
+		const items = rest[0].items ?? [];
+		if (items.every((item) => item.type === 'word')) {
+			value = items.map(({ text }) => text).join(' ');
+			list = true;
+		}
+	} else if (rest.length === 1 && isBlock && /^<.+>$/.test(rest[0].text)) {
+		// Block with a wildcard like "interfaces <ge-*> {"
+		type = 'pattern-block';
+	}
+
+	const node = createNode(type, name.text, value);
+	if (quoted) {
+		node.quoted = true;
+	}
+	if (list) {
+		node.list = true;
+	}
+
+	return node;
+}
+
+/**
+ * Print a token the way it was written
+ */
+function formatToken(token: { type: string; text: string }): string {
+	return token.type === 'string' ? `"${token.text}"` : token.text;
+}
+
+/**
+ * Print a statement part the way it was written
+ */
+function formatPart(part: StatementPart): string {
+	return part.type === 'list' ? part.text : formatToken(part);
+}
+
+export type ConfigFormat = 'text' | 'set' | 'xml' | 'json';
+
+export interface AstToConfigOptions {
+	// Output format, the curly-brace text by default
+	format?: ConfigFormat;
+	// The options below apply to the curly-brace text
+	// Indentation of each level, a number of spaces or a tab, 4 spaces by default
+	indent?: number | 'tab';
+	// Blank lines between top-level statements, none by default
+	blankLines?: number;
+	// Whether to print statements tagged `inactive:`, true by default
+	inactive?: boolean;
+	// Whether to print `#` comments and /* */ annotations, true by default
+	comments?: boolean;
 }
 
 /**
  * Convert AST back to Juniper configuration string
  * @param {Object} ast - The AST to convert
+ * @param {Object} options - The output format and how to lay out the curly-brace text
  * @return {string} - The Juniper configuration string
  */
-export function astToConfig(ast: JuniperNode): string {
-	return nodeToConfig(ast, 0);
+export function astToConfig(ast: JuniperNode, options: AstToConfigOptions = {}): string {
+	switch (options.format) {
+		case 'set':
+			return astToSetConfig(ast);
+		case 'xml':
+			return astToXml(ast);
+		case 'json':
+			return astToJson(ast);
+		default: {
+			const { indent = 4, blankLines = 0, inactive = true, comments = true } = options;
+			const style = {
+				indent: indent === 'tab' ? '\t' : ' '.repeat(indent),
+				blankLines,
+				inactive,
+				comments,
+			};
+			return nodeToConfig(ast, 0, style);
+		}
+	}
+}
+
+export interface ParseConfigOptions {
+	// Input format, detected from the content by default
+	format?: ConfigFormat | 'auto';
+}
+
+/**
+ * Guess the format of a configuration from its content
+ * @param {string} config - The configuration
+ * @return {string} - XML and JSON by their first character, set commands when every statement
+ * is a command, and curly-brace text otherwise
+ */
+export function detectConfigFormat(config: string): ConfigFormat {
+	const text = config.trimStart();
+	if (text.startsWith('<')) return 'xml';
+	if (text.startsWith('{') || text.startsWith('[')) return 'json';
+
+	const statements = text.split('\n').filter((line) => line.trim() && !/^\s*#/.test(line));
+	if (
+		statements.length &&
+		statements.every((line) =>
+			/^\s*(?:set|delete|deactivate|activate|protect|unprotect)\s/.test(line),
+		)
+	) {
+		return 'set';
+	}
+	return 'text';
+}
+
+/**
+ * Parse a configuration in any of the supported formats
+ * @param {string} config - The configuration
+ * @param {Object} options - The input format
+ * @return {Object} - The AST and the diagnostics
+ */
+export function parseConfigWithDiagnostics(
+	config: string,
+	options: ParseConfigOptions = {},
+): ParseResult {
+	const { format = 'auto' } = options;
+	switch (format === 'auto' ? detectConfigFormat(config) : format) {
+		case 'set':
+			return parseSetConfigWithDiagnostics(config);
+		case 'xml':
+			return parseXmlConfigWithDiagnostics(config);
+		case 'json':
+			return parseJsonConfigWithDiagnostics(config);
+		default:
+			return parseJuniperConfigWithDiagnostics(config);
+	}
+}
+
+/**
+ * Print a node's value the way it was written
+ * @param {Object} node - The node whose value to print
+ * @return {string} - The value, quoted or bracketed as needed
+ */
+export function formatValue(node: JuniperNode): string {
+	if (node.quoted) return `"${node.value}"`;
+	if (node.list) return node.value ? `[ ${node.value} ]` : '[ ]';
+	return node.value ?? '';
+}
+
+interface TextStyle {
+	indent: string;
+	blankLines: number;
+	inactive: boolean;
+	comments: boolean;
 }
 
 /**
  * Helper for astToConfig that converts a node to config string
  */
-function nodeToConfig(node: JuniperNode, indent: number): string {
-	const indentStr = '    '.repeat(indent);
-	let result = '';
+function nodeToConfig(node: JuniperNode, depth: number, style: TextStyle): string {
+	const indentStr = style.indent.repeat(depth);
+	const tags = [
+		node.inactive ? 'inactive: ' : '',
+		node.protect ? 'protect: ' : '',
+		node.replace ? 'replace: ' : '',
+		node.delete ? 'delete: ' : '',
+	].join('');
+	const comments = style.comments
+		? [
+				...(node.comments ?? []).map((text) => `${indentStr}${text}\n`),
+				...(node.annotations ?? []).map((text) => `${indentStr}/* ${text} */\n`),
+			]
+		: [];
+	const trailing = style.comments && node.trailingComment ? ` ${node.trailingComment}` : '';
+	const prefix = `${comments.join('')}${indentStr}${tags}`;
+
+	// The children, then the comments left before the closing brace
+	const body = (childDepth: number) => [
+		...node.children
+			.filter((child) => style.inactive || !child.inactive)
+			.map((child) => nodeToConfig(child, childDepth, style)),
+		...(style.comments ? node.closingComments ?? [] : []).map(
+			(text) => `${style.indent.repeat(childDepth)}${text}`,
+		),
+	];
+	const block = (header: string) => {
+		const lines = body(depth + 1);
+		return `${prefix}${header} {${trailing}\n${lines.map((line) => `${line}\n`).join('')}${indentStr}}`;
+	};
 
 	if (node.type === 'root') {
 		// Root node has no representation in the config
-		return node.children.map((child) => nodeToConfig(child, indent)).join('\n');
+		return body(depth).join('\n'.repeat(style.blankLines + 1));
 	}
 
 	if (node.type === 'block') {
-		result += `${indentStr}${node.name} {\n`;
-		const childrenConfig = node.children.map((child) => nodeToConfig(child, indent + 1)).join('\n');
-		result += childrenConfig ? childrenConfig + '\n' : '';
-		result += `${indentStr}}`;
-		return result;
+		return block(`${node.name}`);
 	}
 
 	if (node.type === 'named-block' || node.type === 'pattern-block') {
-		result += `${indentStr}${node.name} ${node.value} {\n`;
-		const childrenConfig = node.children.map((child) => nodeToConfig(child, indent + 1)).join('\n');
-		result += childrenConfig ? childrenConfig + '\n' : '';
-		result += `${indentStr}}`;
-		return result;
+		return block(`${node.name} ${formatValue(node)}`);
 	}
 
 	if (node.type === 'directive') {
-		return `${indentStr}${node.name} ${node.value};`;
+		return `${prefix}${node.name} ${formatValue(node)};${trailing}`;
 	}
 
 	if (node.type === 'flag') {
-		return `${indentStr}${node.name};`;
+		return `${prefix}${node.name};${trailing}`;
 	}
 
 	// Default case
 	return `${indentStr}# Unknown node type: ${node.type}`;
 }
 
+/**
+ * Node properties diffs leave out unless told otherwise: source positions differ between any
+ * two files, and comments such as the `## Last commit:` header do not change the configuration
+ */
+export const DEFAULT_IGNORED_PROPERTIES = [
+	'span',
+	'comments',
+	'trailingComment',
+	'closingComments',
+];
+
 export interface DiffOptions {
+	// Node properties not to compare, `DEFAULT_IGNORED_PROPERTIES` by default
 	ignoreProperties?: string[];
 	maxDepth?: number;
 	currentPath?: string[];
 	absolutePath?: string[]; // New parameter to track absolute path through the AST
+	matchBy?: 'index' | 'identity'; // Pair siblings by position or by what they configure
+	newPath?: string[]; // Path of the current node in the new AST, for identity matching
 }
 
 export interface JuniperDiff {
 	type: string;
 	path: string[];
 	absolutePath: string[];
-	oldValue?: object | string;
-	newValue?: object | string;
+	oldValue?: object | string | boolean;
+	newValue?: object | string | boolean;
 	property?: any;
 	nodeType?: string;
 	oldType?: string;
 	newType?: string;
+	oldIndex?: number;
+	newIndex?: number;
+	list?: boolean; // The modified value is a [ ] list
+	quoted?: boolean; // The modified value is quoted
 }
 
 /**
@@ -219,8 +599,13 @@ export function diffAst(
 	newAst: JuniperNode,
 	options: DiffOptions = {},
 ): JuniperDiff[] {
+	if (options.matchBy === 'identity') {
+		return diffAstByIdentity(oldAst, newAst, options);
+	}
+
 	const diffs: JuniperDiff[] = [];
 	const {
+		ignoreProperties = DEFAULT_IGNORED_PROPERTIES,
 		maxDepth = Infinity,
 		currentPath = [],
 		absolutePath = [], // New parameter to track absolute path through the AST
@@ -334,6 +719,8 @@ export function diffAst(
 	const allProps = new Set([...Object.keys(oldAst), ...Object.keys(newAst)]);
 
 	for (const prop of allProps) {
+		if (ignoreProperties.includes(prop)) continue;
+
 		if (!(prop in oldAst)) {
 			// Property added
 			diffs.push({
@@ -394,6 +781,217 @@ export function diffAst(
 	return diffs;
 }
 
+/**
+ * Label of a node in an identity-mode absolute path, e.g. "interfaces" or "unit 0"
+ * @param {Object} node - The node to label
+ * @return {string} - The label
+ */
+export function nodeLabel(node: JuniperNode): string {
+	if (node.type === 'named-block' || node.type === 'pattern-block') {
+		return `${node.name} ${formatValue(node)}`;
+	}
+	return node.name ?? node.type;
+}
+
+/**
+ * Key that identifies a node among its siblings: the whole statement
+ */
+const strictKey = (node: JuniperNode) => `${node.type}|${node.name}|${node.value}`;
+
+/**
+ * Key that pairs up leftover siblings: blocks keep their identity, directives match by name
+ */
+const looseKey = (node: JuniperNode) =>
+	node.type === 'directive' ? `${node.type}|${node.name}` : strictKey(node);
+
+/**
+ * Node properties compared directly rather than through the children
+ */
+const STRUCTURAL_PROPERTIES = ['type', 'name', 'children'];
+
+/**
+ * Pair up old and new siblings, first by the whole statement, then by name for directives
+ * @param {Array} oldChildren - The siblings in the old AST
+ * @param {Array} newChildren - The siblings in the new AST
+ * @return {Array} - [oldIndex, newIndex] pairs, in old order
+ */
+function matchSiblings(oldChildren: JuniperNode[], newChildren: JuniperNode[]): number[][] {
+	const oldMatched = new Array<number>(oldChildren.length).fill(-1);
+	const newMatched = new Array<boolean>(newChildren.length).fill(false);
+
+	for (const keyOf of [strictKey, looseKey]) {
+		const candidates = new Map<string, number[]>();
+		newChildren.forEach((child, index) => {
+			if (newMatched[index]) return;
+			const key = keyOf(child);
+			candidates.set(key, [...(candidates.get(key) ?? []), index]);
+		});
+
+		// Loose matches are only trusted when they are unambiguous on both sides
+		const oldCounts = _.countBy(
+			oldChildren.filter((_child, index) => oldMatched[index] === -1),
+			keyOf,
+		);
+
+		oldChildren.forEach((child, index) => {
+			if (oldMatched[index] !== -1) return;
+			const key = keyOf(child);
+			const queue = candidates.get(key);
+			if (!queue?.length) return;
+			if (keyOf === looseKey && (oldCounts[key] > 1 || queue.length > 1)) return;
+
+			const newIndex = queue.shift() as number;
+			oldMatched[index] = newIndex;
+			newMatched[newIndex] = true;
+		});
+	}
+
+	return oldMatched
+		.map((newIndex, oldIndex) => [oldIndex, newIndex])
+		.filter(([, newIndex]) => newIndex !== -1);
+}
+
+/**
+ * Indexes of the longest increasing subsequence, used to find the siblings that kept their order
+ * @param {number[]} values - The sequence to search
+ * @return {Set} - Positions in `values` that are part of the subsequence
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+	const tails: number[] = [];
+	const previous = new Array<number>(values.length).fill(-1);
+
+	values.forEach((value, index) => {
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (values[tails[mid]] < value) low = mid + 1;
+			else high = mid;
+		}
+		previous[index] = low > 0 ? tails[low - 1] : -1;
+		tails[low] = index;
+	});
+
+	const result = new Set<number>();
+	for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+		result.add(index);
+	}
+	return result;
+}
+
+/**
+ * Compares two ASTs by matching siblings on identity instead of position
+ *
+ * Siblings are paired by type, name and value (by name only for directives). Unpaired
+ * siblings are reported as `add`/`remove`, paired siblings that fell out of order as `move`,
+ * and changed values or tags of paired siblings as `modify`. Paths into the old AST are used
+ * for everything except `add`, which points into the new AST.
+ * @param {Object} oldAst - The original AST node
+ * @param {Object} newAst - The new AST node
+ * @param {Object} options - Configuration options
+ * @returns {Array} - Array of difference objects with absolute paths
+ */
+export function diffAstByIdentity(
+	oldAst: JuniperNode,
+	newAst: JuniperNode,
+	options: DiffOptions = {},
+): JuniperDiff[] {
+	const diffs: JuniperDiff[] = [];
+	const {
+		ignoreProperties = DEFAULT_IGNORED_PROPERTIES,
+		maxDepth = Infinity,
+		currentPath = [],
+		absolutePath = [],
+		newPath = currentPath,
+	} = options;
+
+	// Changed values and tags of the node itself
+	const props = new Set([...Object.keys(oldAst), ...Object.keys(newAst)]);
+	for (const prop of props) {
+		if (STRUCTURAL_PROPERTIES.includes(prop) || ignoreProperties.includes(prop)) continue;
+
+		// @ts-ignore
+		const [oldValue, newValue] = [oldAst[prop], newAst[prop]];
+		if (_.isEqual(oldValue ?? null, newValue ?? null)) continue;
+
+		diffs.push({
+			type: 'modify',
+			path: [...currentPath, prop],
+			absolutePath: [...absolutePath],
+			oldValue,
+			newValue,
+			property: prop,
+			nodeType: oldAst.type,
+			...(prop === 'value' && (oldAst.list || newAst.list) ? { list: true } : {}),
+			...(prop === 'value' && (oldAst.quoted || newAst.quoted) ? { quoted: true } : {}),
+		});
+	}
+
+	if (maxDepth === 0) return diffs;
+
+	const oldChildren = oldAst.children ?? [];
+	const newChildren = newAst.children ?? [];
+	const pairs = matchSiblings(oldChildren, newChildren);
+	const pairedOld = new Set(pairs.map(([oldIndex]) => oldIndex));
+	const pairedNew = new Map(pairs.map(([oldIndex, newIndex]) => [newIndex, oldIndex]));
+	const inOrder = longestIncreasingSubsequence(pairs.map(([, newIndex]) => newIndex));
+	const moved = new Set(pairs.filter((_pair, index) => !inOrder.has(index)).map(([o]) => o));
+
+	oldChildren.forEach((child, index) => {
+		if (pairedOld.has(index)) return;
+		diffs.push({
+			type: 'remove',
+			path: [...currentPath, 'children', index.toString()],
+			absolutePath: [...absolutePath, nodeLabel(child)],
+			oldValue: child,
+			nodeType: child.type,
+		});
+	});
+
+	newChildren.forEach((child, newIndex) => {
+		const childNewPath = [...newPath, 'children', newIndex.toString()];
+		const oldIndex = pairedNew.get(newIndex);
+
+		if (oldIndex === undefined) {
+			diffs.push({
+				type: 'add',
+				path: childNewPath,
+				absolutePath: [...absolutePath, nodeLabel(child)],
+				newValue: child,
+				nodeType: child.type,
+			});
+			return;
+		}
+
+		const oldChild = oldChildren[oldIndex];
+		const childPath = [...currentPath, 'children', oldIndex.toString()];
+		const childAbsolutePath = [...absolutePath, nodeLabel(oldChild)];
+
+		if (moved.has(oldIndex)) {
+			diffs.push({
+				type: 'move',
+				path: childPath,
+				absolutePath: childAbsolutePath,
+				oldIndex,
+				newIndex,
+				nodeType: oldChild.type,
+			});
+		}
+
+		diffs.push(
+			...diffAstByIdentity(oldChild, child, {
+				...options,
+				currentPath: childPath,
+				newPath: childNewPath,
+				absolutePath: childAbsolutePath,
+				maxDepth: maxDepth > 0 ? maxDepth - 1 : 0,
+			}),
+		);
+	});
+
+	return diffs;
+}
+
 export interface Interface {
 	name: string;
 	[key: string]: any;
@@ -402,7 +1000,7 @@ export interface Interface {
 export function addInterfaceProp(
 	interfaces: Array<Interface>,
 	path: string[],
-	value?: object | string,
+	value?: object | string | boolean,
 ): Array<Interface> {
 	if (path[0] !== 'interfaces') return interfaces;
 
@@ -0,0 +1,261 @@
+import { parseJuniperConfig } from './juniper';
+import { analyzeConfig, buildNetworkModel } from './model';
+
+const config = `interfaces {
+    ge-0/0/0 {
+        description "uplink";
+        vlan-tagging;
+        mtu 9192;
+        unit 0 {
+            vlan-id 10;
+            family inet {
+                address 10.0.0.1/24 {
+                    primary;
+                }
+                address 10.0.1.1/24;
+            }
+            family inet6 {
+                address 2001:db8::1/64;
+            }
+        }
+        inactive: unit 5 {
+            family inet address 10.0.0.1/24;
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                interface-mode trunk;
+                vlan {
+                    members [ v10 20 v30 100-110 ];
+                }
+            }
+        }
+    }
+    irb {
+        unit 10 {
+            family inet address 10.0.0.1/24;
+        }
+        unit 20 {
+            family inet address 10.0.0.130/25;
+        }
+    }
+    lo0 {
+        unit 0 {
+            family inet address 10.255.0.1/33;
+        }
+    }
+    ge-0/0/2 {
+        unit 0 {
+            family inet address 10.0.0.1/24;
+        }
+    }
+}
+vlans {
+    v10 {
+        vlan-id 10;
+        l3-interface irb.10;
+    }
+    v20 {
+        vlan-id 20;
+    }
+}
+routing-options {
+    static {
+        route 0.0.0.0/0 next-hop 10.0.0.254;
+        route 10.5.0.0/16 {
+            next-hop [ 10.0.0.2 10.0.0.300 ];
+            preference 10;
+        }
+        route 10.6.0.0/16 discard;
+    }
+}
+protocols {
+    bgp {
+        group EBGP {
+            type external;
+            peer-as 65001;
+            neighbor 10.0.0.2 {
+                description "isp";
+                peer-as 65002;
+            }
+            neighbor 10.0.0.3;
+        }
+    }
+}
+routing-instances {
+    CUST {
+        instance-type vrf;
+        interface ge-0/0/2.0;
+        routing-options {
+            static {
+                route 192.168.0.0/16 next-hop st0.0;
+            }
+        }
+    }
+}`;
+
+describe('model', () => {
+	const ast = parseJuniperConfig(config);
+
+	describe('buildNetworkModel', () => {
+		const model = buildNetworkModel(ast);
+
+		it('types interfaces, units and their addresses', () => {
+			const [uplink] = model.interfaces;
+
+			expect(uplink).toMatchObject({
+				name: 'ge-0/0/0',
+				description: 'uplink',
+				mtu: 9192,
+				vlanTagging: true,
+				disabled: false,
+				path: ['interfaces', 'ge-0/0/0'],
+			});
+			expect(uplink.units).toHaveLength(1);
+			expect(uplink.units[0]).toMatchObject({
+				name: 'ge-0/0/0.0',
+				vlanId: 10,
+				families: ['inet', 'inet6'],
+			});
+			expect(uplink.units[0].addresses.map(({ address, primary }) => [address, primary])).toEqual([
+				['10.0.0.1/24', true],
+				['10.0.1.1/24', false],
+				['2001:db8::1/64', false],
+			]);
+			expect(uplink.units[0].addresses[2].prefix?.network).toBe('2001:db8::/64');
+			expect(model.interfaces[2].units[0].addresses[0]).toMatchObject({
+				address: '10.0.0.1/24',
+				path: ['interfaces', 'irb', 'unit 10', 'family inet', 'address 10.0.0.1/24'],
+			});
+			expect(model.interfaces[1].units[0]).toMatchObject({
+				interfaceMode: 'trunk',
+				vlanMembers: ['v10', '20', 'v30', '100-110'],
+			});
+			expect(model.interfaces[4].units[0].routingInstance).toBe('CUST');
+		});
+
+		it('types VLANs, static routes and BGP groups', () => {
+			expect(model.vlans).toEqual([
+				{ name: 'v10', vlanId: 10, l3Interface: 'irb.10', path: ['vlans', 'v10'] },
+				{ name: 'v20', vlanId: 20, path: ['vlans', 'v20'] },
+			]);
+			expect(
+				model.staticRoutes.map(
+					({ destination, nextHops, action, preference, routingInstance }) => ({
+						destination,
+						nextHops,
+						action,
+						preference,
+						routingInstance,
+					}),
+				),
+			).toEqual([
+				{ destination: '0.0.0.0/0', nextHops: ['10.0.0.254'] },
+				{ destination: '10.5.0.0/16', nextHops: ['10.0.0.2', '10.0.0.300'], preference: 10 },
+				{ destination: '10.6.0.0/16', nextHops: [], action: 'discard' },
+				{ destination: '192.168.0.0/16', nextHops: ['st0.0'], routingInstance: 'CUST' },
+			]);
+			expect(model.bgpGroups).toEqual([
+				{
+					name: 'EBGP',
+					type: 'external',
+					peerAs: '65001',
+					neighbors: [
+						{
+							address: '10.0.0.2',
+							description: 'isp',
+							peerAs: '65002',
+							path: ['protocols', 'bgp', 'group EBGP', 'neighbor 10.0.0.2'],
+						},
+						{
+							address: '10.0.0.3',
+							path: ['protocols', 'bgp', 'group EBGP', 'neighbor 10.0.0.3'],
+						},
+					],
+					path: ['protocols', 'bgp', 'group EBGP'],
+				},
+			]);
+		});
+	});
+
+	describe('analyzeConfig', () => {
+		it('reports malformed, duplicate and overlapping addresses and unknown VLANs', () => {
+			const { valid, issues } = analyzeConfig(ast);
+
+			expect(valid).toBe(false);
+			expect(issues.map(({ severity, code, message }) => [severity, code, message])).toEqual([
+				[
+					'error',
+					'invalid-address',
+					'Address of lo0.0: "10.255.0.1/33" has an invalid prefix length, expected 0 to 32',
+				],
+				[
+					'error',
+					'invalid-address',
+					'Next hop of 10.5.0.0/16: "10.0.0.300" is not an IPv4 address',
+				],
+				['error', 'duplicate-address', '10.0.0.1 on irb.10 is also configured on ge-0/0/0.0'],
+				[
+					'warning',
+					'overlapping-subnet',
+					'10.0.0.130/25 on irb.20 overlaps 10.0.0.1/24 on ge-0/0/0.0',
+				],
+				['warning', 'overlapping-subnet', '10.0.0.130/25 on irb.20 overlaps 10.0.0.1/24 on irb.10'],
+				['error', 'unknown-vlan', 'ge-0/0/1.0 is a member of VLAN v30, which is not configured'],
+			]);
+			expect(issues[2].path).toEqual([
+				'interfaces',
+				'irb',
+				'unit 10',
+				'family inet',
+				'address 10.0.0.1/24',
+			]);
+		});
+
+		it('passes a configuration without errors', () => {
+			const { valid, issues } = analyzeConfig(
+				parseJuniperConfig(`interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            family inet address 192.0.2.1/31;
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family inet address 192.0.2.2/31;
+        }
+    }
+}`),
+			);
+
+			expect(valid).toBe(true);
+			expect(issues).toEqual([]);
+		});
+
+		it('leaves IPv6 link-local addresses out of the subnet checks', () => {
+			const { issues } = analyzeConfig(
+				parseJuniperConfig(`interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            family inet6 {
+                address 2001:db8:0:1::1/64;
+                address fe80::1/64;
+            }
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family inet6 {
+                address 2001:db8:0:2::1/64;
+                address fe80::1/64;
+            }
+        }
+    }
+}`),
+			);
+
+			expect(issues).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,550 @@
+import { createNode, formatValue, JuniperNode, nodeLabel } from './juniper';
+import { IpPrefix, isLinkLocal, isSameAddress, parseIpPrefix, prefixesOverlap } from './ip';
+import { isIdentifier, KEYED_ELEMENTS, NAMED_STATEMENTS } from './schema';
+
+/**
+ * Network Domain Model
+ *
+ * Projects an AST onto typed objects - interfaces and their logical units, addresses, VLANs,
+ * static routes and BGP groups - and checks them for problems the statement tree cannot show
+ * on its own: malformed or duplicate addresses, subnets that overlap across units and units
+ * that refer to VLANs which are not configured.
+ *
+ * Inactive statements are left out, as they are not part of the running configuration. Every
+ * object records its `path`, the statement labels from the root, e.g. `["interfaces", "ge-0/0/0",
+ * "unit 0"]`. Named statements are labelled with their value whether or not they open a block.
+ */
+
+export interface InterfaceAddress {
+	family: 'inet' | 'inet6';
+	// The address as configured, e.g. "10.0.0.1/24"
+	address: string;
+	// Null when the address is malformed
+	prefix: IpPrefix | null;
+	primary: boolean;
+	preferred: boolean;
+	path: string[];
+}
+
+export interface LogicalUnit {
+	// Interface and unit, e.g. "ge-0/0/0.0"
+	name: string;
+	unit: string;
+	description?: string;
+	vlanId?: number;
+	disabled: boolean;
+	families: string[];
+	addresses: InterfaceAddress[];
+	// VLAN names or IDs from `family ethernet-switching vlan members`
+	vlanMembers: string[];
+	interfaceMode?: string;
+	// The routing instance the unit is assigned to
+	routingInstance?: string;
+	path: string[];
+}
+
+export interface NetworkInterface {
+	name: string;
+	description?: string;
+	mtu?: number;
+	disabled: boolean;
+	vlanTagging: boolean;
+	units: LogicalUnit[];
+	path: string[];
+}
+
+export interface Vlan {
+	name: string;
+	vlanId?: number;
+	l3Interface?: string;
+	routingInstance?: string;
+	path: string[];
+}
+
+export interface StaticRoute {
+	destination: string;
+	prefix: IpPrefix | null;
+	nextHops: string[];
+	// discard, reject or receive, for routes without a next hop
+	action?: string;
+	preference?: number;
+	routingInstance?: string;
+	path: string[];
+}
+
+export interface BgpNeighbor {
+	address: string;
+	description?: string;
+	peerAs?: string;
+	localAddress?: string;
+	path: string[];
+}
+
+export interface BgpGroup {
+	name: string;
+	type?: string;
+	peerAs?: string;
+	localAddress?: string;
+	neighbors: BgpNeighbor[];
+	routingInstance?: string;
+	path: string[];
+}
+
+export interface NetworkModel {
+	interfaces: NetworkInterface[];
+	vlans: Vlan[];
+	staticRoutes: StaticRoute[];
+	bgpGroups: BgpGroup[];
+}
+
+export interface ModelIssue {
+	severity: 'error' | 'warning';
+	code: 'invalid-address' | 'duplicate-address' | 'overlapping-subnet' | 'unknown-vlan';
+	message: string;
+	path: string[];
+}
+
+export interface ConfigAnalysis {
+	// No issue with an error severity was found
+	valid: boolean;
+	model: NetworkModel;
+	issues: ModelIssue[];
+}
+
+const ROUTE_ACTIONS = new Set(['discard', 'reject', 'receive']);
+
+/**
+ * Statements for a run of words, e.g. `address 10.0.0.1/24 primary` from a one-line statement
+ */
+function wordsToNodes(words: string[]): JuniperNode[] {
+	const nodes: JuniperNode[] = [];
+	for (let index = 0; index < words.length; ) {
+		const name = words[index];
+		if ((NAMED_STATEMENTS.has(name) || KEYED_ELEMENTS.has(name)) && index + 1 < words.length) {
+			// A named statement takes the rest of the words as its children
+			const children = wordsToNodes(words.slice(index + 2));
+			return [
+				...nodes,
+				createNode(children.length ? 'named-block' : 'directive', name, words[index + 1], children),
+			];
+		}
+		if (index + 1 < words.length && isIdentifier(words[index + 1])) {
+			nodes.push(createNode('directive', name, words[index + 1]));
+			index += 2;
+		} else {
+			nodes.push(createNode('flag', name));
+			index++;
+		}
+	}
+	return nodes;
+}
+
+/**
+ * The active children of a node, with statements written on one line opened up,
+ * e.g. `family inet address 10.0.0.1/24;` as `family inet { address 10.0.0.1/24; }`
+ */
+function statements(node: JuniperNode): JuniperNode[] {
+	return node.children
+		.filter((child) => !child.inactive)
+		.map((child) => {
+			const words = child.value?.split(/\s+/) ?? [];
+			if (child.type !== 'directive' || child.quoted || child.list || words.length < 2) {
+				return child;
+			}
+			if (NAMED_STATEMENTS.has(child.name ?? '') || KEYED_ELEMENTS.has(child.name ?? '')) {
+				return createNode('named-block', child.name, words[0], wordsToNodes(words.slice(1)));
+			}
+			return createNode('block', child.name, null, wordsToNodes(words));
+		});
+}
+
+/**
+ * Children of a node with a given statement name
+ */
+const named = (node: JuniperNode, name: string) =>
+	statements(node).filter((child) => child.name === name);
+
+/**
+ * Value of the first child with a given statement name
+ */
+const valueOf = (node: JuniperNode, name: string) =>
+	named(node, name).find((child) => child.value !== null)?.value ?? undefined;
+
+/**
+ * Numeric value of the first child with a given statement name
+ */
+function numberOf(node: JuniperNode, name: string): number | undefined {
+	const value = valueOf(node, name);
+	return value !== undefined && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+const has = (node: JuniperNode, name: string) => named(node, name).length > 0;
+
+/**
+ * Parse an address, null when it is malformed
+ */
+function toPrefix(text: string): IpPrefix | null {
+	try {
+		return parseIpPrefix(text);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Where a model object lives, given its parent's path
+ */
+function pathOf(parent: string[], node: JuniperNode): string[] {
+	const name = node.name ?? '';
+	const isNamed = NAMED_STATEMENTS.has(name) || KEYED_ELEMENTS.has(name);
+	if (node.type === 'directive' && isNamed && node.value !== null) {
+		return [...parent, `${name} ${formatValue(node)}`];
+	}
+	return [...parent, nodeLabel(node)];
+}
+
+/**
+ * Build the logical unit model of one `unit` statement
+ */
+function buildUnit(iface: string, node: JuniperNode, path: string[]): LogicalUnit {
+	const families = statements(node).filter((child) => child.name === 'family' && child.value);
+	const family = (name: string) => families.filter((child) => child.value === name);
+
+	const addresses = families
+		.filter((child) => child.value === 'inet' || child.value === 'inet6')
+		.flatMap((child) =>
+			named(child, 'address')
+				.filter((address) => address.value !== null)
+				.map(
+					(address): InterfaceAddress => ({
+						family: child.value as 'inet' | 'inet6',
+						address: address.value as string,
+						prefix: toPrefix(address.value as string),
+						primary: has(address, 'primary'),
+						preferred: has(address, 'preferred'),
+						path: pathOf(pathOf(path, child), address),
+					}),
+				),
+		);
+
+	const switching = family('ethernet-switching');
+	const vlanMembers = switching
+		.flatMap((child) => named(child, 'vlan'))
+		.flatMap((vlan) => named(vlan, 'members'))
+		.flatMap((members) => members.value?.split(/\s+/) ?? []);
+	const interfaceMode = switching
+		.map((child) => valueOf(child, 'interface-mode') ?? valueOf(child, 'port-mode'))
+		.find(Boolean);
+
+	return {
+		name: `${iface}.${node.value}`,
+		unit: node.value ?? '',
+		description: valueOf(node, 'description'),
+		vlanId: numberOf(node, 'vlan-id'),
+		disabled: has(node, 'disable'),
+		families: families.map((child) => child.value as string),
+		addresses,
+		vlanMembers,
+		interfaceMode,
+		path,
+	};
+}
+
+/**
+ * Build the interface models of an `interfaces` statement
+ */
+function buildInterfaces(node: JuniperNode, path: string[]): NetworkInterface[] {
+	return statements(node)
+		.filter((child) => child.type === 'block' && child.name && !/^<.*>$/.test(child.name))
+		.map((child) => {
+			const ifacePath = pathOf(path, child);
+			const name = child.name as string;
+			return {
+				name,
+				description: valueOf(child, 'description'),
+				mtu: numberOf(child, 'mtu'),
+				disabled: has(child, 'disable'),
+				vlanTagging: has(child, 'vlan-tagging') || has(child, 'flexible-vlan-tagging'),
+				units: named(child, 'unit')
+					.filter((unit) => unit.value !== null && unit.type !== 'pattern-block')
+					.map((unit) => buildUnit(name, unit, pathOf(ifacePath, unit))),
+				path: ifacePath,
+			};
+		});
+}
+
+/**
+ * Build the VLAN models of a `vlans` statement
+ */
+function buildVlans(node: JuniperNode, path: string[], routingInstance?: string): Vlan[] {
+	return statements(node)
+		.filter((child) => child.type === 'block' && child.name)
+		.map((child) => ({
+			name: child.name as string,
+			vlanId: numberOf(child, 'vlan-id'),
+			l3Interface: valueOf(child, 'l3-interface'),
+			routingInstance,
+			path: pathOf(path, child),
+		}));
+}
+
+/**
+ * Build the static route models of a `routing-options` statement, including its `rib` tables
+ */
+function buildStaticRoutes(
+	node: JuniperNode,
+	path: string[],
+	routingInstance?: string,
+): StaticRoute[] {
+	const tables = [
+		{ node, path },
+		...named(node, 'rib').map((rib) => ({ node: rib, path: pathOf(path, rib) })),
+	];
+
+	return tables.flatMap((table) =>
+		named(table.node, 'static').flatMap((staticNode) =>
+			named(staticNode, 'route')
+				.filter((route) => route.value !== null)
+				.map((route): StaticRoute => {
+					const destination = route.value as string;
+					return {
+						destination,
+						prefix: toPrefix(destination),
+						nextHops: named(route, 'next-hop').flatMap(
+							(nextHop) => nextHop.value?.split(/\s+/) ?? [],
+						),
+						action:
+							statements(route).find((child) => ROUTE_ACTIONS.has(child.name ?? ''))?.name ??
+							undefined,
+						preference: numberOf(route, 'preference'),
+						routingInstance,
+						path: pathOf(pathOf(table.path, staticNode), route),
+					};
+				}),
+		),
+	);
+}
+
+/**
+ * Build the BGP group models of a `protocols` statement
+ */
+function buildBgpGroups(node: JuniperNode, path: string[], routingInstance?: string): BgpGroup[] {
+	return named(node, 'bgp').flatMap((bgp) =>
+		named(bgp, 'group')
+			.filter((group) => group.value !== null)
+			.map((group): BgpGroup => {
+				const groupPath = pathOf(pathOf(path, bgp), group);
+				return {
+					name: group.value as string,
+					type: valueOf(group, 'type'),
+					peerAs: valueOf(group, 'peer-as'),
+					localAddress: valueOf(group, 'local-address'),
+					neighbors: named(group, 'neighbor')
+						.filter((neighbor) => neighbor.value !== null)
+						.map((neighbor) => ({
+							address: neighbor.value as string,
+							description: valueOf(neighbor, 'description'),
+							peerAs: valueOf(neighbor, 'peer-as'),
+							localAddress: valueOf(neighbor, 'local-address'),
+							path: pathOf(groupPath, neighbor),
+						})),
+					routingInstance,
+					path: groupPath,
+				};
+			}),
+	);
+}
+
+/**
+ * Project an AST onto the network domain model
+ * @param {Object} ast - The configuration
+ * @return {Object} - The interfaces, VLANs, static routes and BGP groups it configures
+ */
+export function buildNetworkModel(ast: JuniperNode): NetworkModel {
+	const model: NetworkModel = { interfaces: [], vlans: [], staticRoutes: [], bgpGroups: [] };
+	const assignments = new Map<string, string>();
+
+	// The main instance, then every routing instance
+	const levels = [{ node: ast, path: [] as string[], instance: undefined as string | undefined }];
+	for (const instances of named(ast, 'routing-instances')) {
+		for (const instance of statements(instances)) {
+			if (instance.type !== 'block' || !instance.name) continue;
+			levels.push({
+				node: instance,
+				path: pathOf(pathOf([], instances), instance),
+				instance: instance.name,
+			});
+			named(instance, 'interface')
+				.filter((iface) => iface.value !== null)
+				.forEach((iface) => assignments.set(iface.value as string, instance.name as string));
+		}
+	}
+
+	for (const { node, path, instance } of levels) {
+		for (const child of statements(node)) {
+			const childPath = pathOf(path, child);
+			switch (child.name) {
+				case 'interfaces':
+					if (instance === undefined) model.interfaces.push(...buildInterfaces(child, childPath));
+					break;
+				case 'vlans':
+					model.vlans.push(...buildVlans(child, childPath, instance));
+					break;
+				case 'routing-options':
+					model.staticRoutes.push(...buildStaticRoutes(child, childPath, instance));
+					break;
+				case 'protocols':
+					model.bgpGroups.push(...buildBgpGroups(child, childPath, instance));
+					break;
+			}
+		}
+	}
+
+	for (const unit of model.interfaces.flatMap((iface) => iface.units)) {
+		const instance = assignments.get(unit.name);
+		if (instance !== undefined) unit.routingInstance = instance;
+	}
+
+	return model;
+}
+
+/**
+ * Addresses that are malformed: on units, as route destinations and next hops, and on BGP peers
+ */
+function checkAddresses(model: NetworkModel): ModelIssue[] {
+	const issues: ModelIssue[] = [];
+	const check = (text: string, what: string, path: string[]) => {
+		try {
+			parseIpPrefix(text);
+		} catch (error) {
+			issues.push({
+				severity: 'error',
+				code: 'invalid-address',
+				message: `${what}: ${error.message}`,
+				path,
+			});
+		}
+	};
+
+	for (const unit of model.interfaces.flatMap((iface) => iface.units)) {
+		for (const { address, path } of unit.addresses) {
+			check(address, `Address of ${unit.name}`, path);
+		}
+	}
+	for (const route of model.staticRoutes) {
+		check(route.destination, 'Static route destination', route.path);
+		// A next hop can also be an interface, only check the ones that look like addresses
+		route.nextHops
+			.filter((nextHop) => /^[\d.]+$|:/.test(nextHop))
+			.forEach((nextHop) => check(nextHop, `Next hop of ${route.destination}`, route.path));
+	}
+	for (const group of model.bgpGroups) {
+		if (group.localAddress) {
+			check(group.localAddress, `Local address of BGP group ${group.name}`, group.path);
+		}
+		for (const neighbor of group.neighbors) {
+			check(neighbor.address, `BGP neighbor of group ${group.name}`, neighbor.path);
+			if (neighbor.localAddress) {
+				check(
+					neighbor.localAddress,
+					`Local address of neighbor ${neighbor.address}`,
+					neighbor.path,
+				);
+			}
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Unit addresses configured more than once, and subnets shared by different units, within each
+ * routing instance. IPv6 link-local addresses only matter on their own link and are left out.
+ */
+function checkSubnets(model: NetworkModel): ModelIssue[] {
+	const issues: ModelIssue[] = [];
+	const seen: Array<{ unit: LogicalUnit; address: InterfaceAddress; prefix: IpPrefix }> = [];
+
+	for (const unit of model.interfaces.flatMap((iface) => iface.units)) {
+		for (const address of unit.addresses) {
+			const { prefix } = address;
+			if (!prefix || isLinkLocal(prefix)) continue;
+
+			const others = seen.filter((other) => other.unit.routingInstance === unit.routingInstance);
+			const duplicate = others.find((other) => isSameAddress(other.prefix, prefix));
+			if (duplicate) {
+				issues.push({
+					severity: 'error',
+					code: 'duplicate-address',
+					message: `${prefix.address} on ${unit.name} is also configured on ${duplicate.unit.name}`,
+					path: address.path,
+				});
+			} else {
+				others
+					.filter((other) => other.unit !== unit && prefixesOverlap(other.prefix, prefix))
+					.forEach((other) =>
+						issues.push({
+							severity: 'warning',
+							code: 'overlapping-subnet',
+							message: `${address.address} on ${unit.name} overlaps ${other.address.address} on ${other.unit.name}`,
+							path: address.path,
+						}),
+					);
+			}
+
+			seen.push({ unit, address, prefix });
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Units whose VLAN members are neither the name nor the ID of a configured VLAN
+ */
+function checkVlanReferences(model: NetworkModel): ModelIssue[] {
+	const names = new Set(model.vlans.map((vlan) => vlan.name));
+	const ids = new Set(model.vlans.map((vlan) => vlan.vlanId).filter((id) => id !== undefined));
+
+	return model.interfaces
+		.flatMap((iface) => iface.units)
+		.flatMap((unit) =>
+			unit.vlanMembers
+				.filter(
+					(member) =>
+						member !== 'all' &&
+						!names.has(member) &&
+						// VLAN ID ranges such as 10-20 may name VLANs that are not configured
+						!/^\d+-\d+$/.test(member) &&
+						!(/^\d+$/.test(member) && ids.has(Number(member))),
+				)
+				.map(
+					(member): ModelIssue => ({
+						severity: 'error',
+						code: 'unknown-vlan',
+						message: `${unit.name} is a member of VLAN ${member}, which is not configured`,
+						path: unit.path,
+					}),
+				),
+		);
+}
+
+/**
+ * Check a network model for addressing and VLAN problems
+ * @param {Object} model - The model from `buildNetworkModel`
+ * @return {Array} - The issues found, malformed addresses first
+ */
+export function validateNetworkModel(model: NetworkModel): ModelIssue[] {
+	return [...checkAddresses(model), ...checkSubnets(model), ...checkVlanReferences(model)];
+}
+
+/**
+ * Build the network model of a configuration and validate it
+ * @param {Object} ast - The configuration
+ * @return {Object} - The model, its issues and whether none of them is an error
+ */
+export function analyzeConfig(ast: JuniperNode): ConfigAnalysis {
+	const model = buildNetworkModel(ast);
+	const issues = validateNetworkModel(model);
+	return { valid: !issues.some(({ severity }) => severity === 'error'), model, issues };
+}
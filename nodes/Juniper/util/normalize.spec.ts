@@ -0,0 +1,79 @@
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { normalizeAst } from './normalize';
+
+describe('normalize', () => {
+	describe('normalizeAst', () => {
+		it('sorts siblings and merges duplicate hierarchies', () => {
+			const ast = parseJuniperConfig(`system {
+    services {
+        ssh;
+    }
+    host-name "r1";
+}
+interfaces {
+    ge-0/0/10 {
+        description "core link";
+    }
+    ge-0/0/2 {
+        mtu 9192;
+    }
+}
+system {
+    services {
+        netconf;
+        ssh;
+    }
+}`);
+
+			expect(astToConfig(normalizeAst(ast))).toBe(`interfaces {
+    ge-0/0/2 {
+        mtu 9192;
+    }
+    ge-0/0/10 {
+        description "core link";
+    }
+}
+system {
+    host-name r1;
+    services {
+        netconf;
+        ssh;
+    }
+}`);
+		});
+
+		it('keeps the order of terms', () => {
+			const ast = normalizeAst(
+				parseJuniperConfig(`firewall {
+    filter protect-re {
+        term allow-ssh {
+            then accept;
+        }
+        term deny-all {
+            then discard;
+        }
+        term allow-bgp {
+            then accept;
+        }
+    }
+}`),
+			);
+
+			expect(ast.children[0].children[0].children.map(({ value }) => value)).toEqual([
+				'allow-ssh',
+				'deny-all',
+				'allow-bgp',
+			]);
+		});
+
+		it('makes reordered configs compare equal', () => {
+			const a = parseJuniperConfig('system { host-name r1; ntp { server 10.0.0.1; } }');
+			const b = parseJuniperConfig(
+				'system {\n    ntp {\n        server 10.0.0.1;\n    }\n    host-name r1;\n}',
+			);
+
+			expect(diffAst(a, b)).not.toEqual([]);
+			expect(diffAst(normalizeAst(a), normalizeAst(b))).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,84 @@
+import { JuniperNode } from './juniper';
+import { ORDERED_STATEMENTS } from './schema';
+
+/**
+ * Canonical Configuration Form
+ *
+ * Two configurations that configure the same thing can still be written differently: statements
+ * in another order, a hierarchy split over two blocks, or a value quoted that does not need to
+ * be. Normalizing both sides before a diff leaves only the changes that matter.
+ */
+
+const collator = new Intl.Collator('en', { numeric: true });
+
+/**
+ * Whether a value must be quoted to be read back as one word
+ */
+const needsQuotes = (value: string) => !value || /[\s;{}[\]"'#]/.test(value);
+
+/**
+ * The value of a node with its whitespace normalized
+ */
+function normalizeValue(node: JuniperNode): string | null {
+	if (node.value === null) return null;
+	// Inside quotes whitespace is part of the value, only the ends are trimmed
+	return node.quoted ? node.value.trim() : node.value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Key under which duplicate statements are merged: the whole statement and its tags
+ */
+function mergeKey(node: JuniperNode): string {
+	const tags = ['inactive', 'protect', 'replace', 'delete'].filter(
+		(tag) => node[tag as keyof JuniperNode],
+	);
+	return [node.type, node.name, normalizeValue(node), ...tags].join('|');
+}
+
+/**
+ * Order siblings by name and then value, entries of ordered statements keep their order
+ */
+function compareNodes(a: JuniperNode, b: JuniperNode): number {
+	const byName = collator.compare(a.name ?? '', b.name ?? '');
+	if (byName || ORDERED_STATEMENTS.has(a.name ?? '')) return byName;
+	return collator.compare(a.value ?? '', b.value ?? '');
+}
+
+/**
+ * Bring an AST into canonical form: duplicate hierarchies are merged, siblings are sorted except
+ * where order matters, whitespace is collapsed and quotes are only kept where they are needed
+ * @param {Object} ast - The AST to normalize, which is not changed
+ * @return {Object} - A new, normalized AST without source positions
+ */
+export function normalizeAst(ast: JuniperNode): JuniperNode {
+	const { span: _span, quoted, children, ...rest } = ast;
+	const normalized: JuniperNode = { ...rest, value: normalizeValue(ast), children: [] };
+
+	if (quoted && needsQuotes(normalized.value ?? '')) {
+		normalized.quoted = true;
+	}
+	if (ast.annotations) {
+		normalized.annotations = ast.annotations.map((text) => text.trim());
+	}
+
+	// Fold repeated statements into the first one, combining their contents
+	const merged = new Map<string, JuniperNode>();
+	for (const child of children) {
+		const key = mergeKey(child);
+		const existing = merged.get(key);
+		if (!existing) {
+			merged.set(key, child);
+			continue;
+		}
+		const annotations = [...(existing.annotations ?? []), ...(child.annotations ?? [])];
+		merged.set(key, {
+			...existing,
+			children: [...existing.children, ...child.children],
+			...(annotations.length ? { annotations: [...new Set(annotations)] } : {}),
+		});
+	}
+
+	normalized.children = [...merged.values()].map(normalizeAst).sort(compareNodes);
+
+	return normalized;
+}
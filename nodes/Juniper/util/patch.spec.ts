@@ -0,0 +1,123 @@
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { applyDiff } from './patch';
+
+const golden = parseJuniperConfig(`system {
+    host-name golden;
+    ntp {
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description uplink;
+    }
+    ge-0/0/1 {
+        description access;
+    }
+}`);
+
+const device = parseJuniperConfig(`system {
+    host-name sw-01;
+}
+interfaces {
+    ge-0/0/1 {
+        description printer;
+    }
+    ge-0/0/0 {
+        description uplink;
+    }
+    ge-0/0/2 {
+        disable;
+    }
+}`);
+
+describe('patch', () => {
+	describe('applyDiff', () => {
+		it('turns the old AST into the new one with identity matching', () => {
+			const diff = diffAst(device, golden, { matchBy: 'identity' });
+			const result = applyDiff(device, diff, { matchBy: 'identity' });
+
+			expect(result.conflicts).toEqual([]);
+			expect(result.applied).toBe(diff.length);
+			expect(astToConfig(result.ast)).toBe(astToConfig(golden));
+		});
+
+		it('turns the old AST into the new one with index matching', () => {
+			const result = applyDiff(device, diffAst(device, golden));
+
+			expect(result.conflicts).toEqual([]);
+			expect(astToConfig(result.ast)).toBe(astToConfig(golden));
+		});
+
+		it('does not modify the base AST', () => {
+			const before = astToConfig(device);
+			applyDiff(device, diffAst(device, golden, { matchBy: 'identity' }), { matchBy: 'identity' });
+
+			expect(astToConfig(device)).toBe(before);
+		});
+
+		it('reports conflicts when the base no longer matches', () => {
+			const diff = diffAst(device, golden, { matchBy: 'identity' });
+			const other = parseJuniperConfig(`system {
+    host-name sw-02;
+}
+interfaces {
+    ge-0/0/1 {
+        description printer;
+    }
+}`);
+
+			const result = applyDiff(other, diff, { matchBy: 'identity' });
+
+			expect(result.conflicts.map(({ message }) => message)).toEqual([
+				'Expected host-name value to be sw-01 but found sw-02',
+				'ge-0/0/2 does not exist',
+			]);
+			expect(astToConfig(result.ast)).toContain('ntp {\n        server 10.0.0.1;');
+			expect(astToConfig(result.ast)).toContain('ge-0/0/1 {\n        description access;');
+		});
+
+		it('removes nodes whose comments differ from the diffed ones', () => {
+			const diff = diffAst(device, golden, { matchBy: 'identity' });
+			const commented = parseJuniperConfig(`system {
+    host-name sw-01;
+}
+interfaces {
+    ge-0/0/1 {
+        description printer;
+    }
+    ge-0/0/0 {
+        description uplink;
+    }
+    # Spare port
+    ge-0/0/2 {
+        disable;
+    }
+}`);
+
+			const result = applyDiff(commented, diff, { matchBy: 'identity' });
+
+			expect(result.conflicts).toEqual([]);
+			expect(astToConfig(result.ast)).not.toContain('ge-0/0/2');
+		});
+
+		it('moves the right one of several directives with the same name', () => {
+			const before = parseJuniperConfig(`system {
+    name-server 10.0.0.1;
+    name-server 10.0.0.2;
+    name-server 10.0.0.3;
+}`);
+			const after = parseJuniperConfig(`system {
+    name-server 10.0.0.3;
+    name-server 10.0.0.1;
+    name-server 10.0.0.2;
+}`);
+			const diff = diffAst(before, after, { matchBy: 'identity' });
+
+			const result = applyDiff(before, diff, { matchBy: 'identity' });
+
+			expect(result.conflicts).toEqual([]);
+			expect(astToConfig(result.ast)).toBe(astToConfig(after));
+		});
+	});
+});
@@ -0,0 +1,295 @@
+import _ from 'lodash';
+import {
+	DEFAULT_IGNORED_PROPERTIES,
+	DiffOptions,
+	JuniperDiff,
+	JuniperNode,
+	nodeLabel,
+} from './juniper';
+
+/**
+ * Juniper Diff Application
+ *
+ * Applies the differences computed by `diffAst` to an AST. The base does not have to be the
+ * AST the diff was computed from: every change is checked against what it expects to find,
+ * and anything that no longer matches is reported as a conflict instead of being applied.
+ */
+
+export interface ApplyDiffOptions {
+	matchBy?: DiffOptions['matchBy'];
+}
+
+export interface DiffConflict {
+	diff: JuniperDiff;
+	message: string;
+}
+
+export interface ApplyDiffResult {
+	ast: JuniperNode;
+	applied: number;
+	conflicts: DiffConflict[];
+}
+
+/**
+ * Copy of a value without the node properties diffs ignore, such as spans and comments
+ */
+const withoutIgnored = (value: unknown): unknown => {
+	if (Array.isArray(value)) return value.map(withoutIgnored);
+	if (!_.isPlainObject(value)) return value;
+	return _.mapValues(_.omit(value as object, DEFAULT_IGNORED_PROPERTIES), withoutIgnored);
+};
+
+/**
+ * Deep equality that ignores where nodes came from in their source files and their comments
+ */
+const isSame = (a: unknown, b: unknown) =>
+	_.isEqual(withoutIgnored(a ?? null), withoutIgnored(b ?? null));
+
+/**
+ * Whether two nodes are the same statement, regardless of their children
+ */
+const isSameStatement = (a: JuniperNode, b: JuniperNode) =>
+	a.type === b.type && a.name === b.name && a.value === b.value;
+
+/**
+ * Find a node by the labels of an identity-mode absolute path
+ * @param {Object} ast - The root node
+ * @param {string[]} labels - One label per level, as produced by `nodeLabel`
+ * @return {Object|undefined} - The node, if every level exists
+ */
+export function findNodeByLabels(ast: JuniperNode, labels: string[]): JuniperNode | undefined {
+	return labels.reduce<JuniperNode | undefined>(
+		(node, label) => node?.children.find((child) => nodeLabel(child) === label),
+		ast,
+	);
+}
+
+/**
+ * Apply a single identity-mode removal or modification
+ * @return {string|null} - The conflict message, or null if it was applied
+ */
+function applyIdentityChange(ast: JuniperNode, diff: JuniperDiff): string | null {
+	const parentLabels = diff.absolutePath.slice(0, -1);
+	const label = diff.absolutePath[diff.absolutePath.length - 1];
+	const parent = findNodeByLabels(ast, parentLabels);
+
+	if (!parent) {
+		return `Hierarchy [edit ${parentLabels.join(' ')}] does not exist`;
+	}
+
+	if (diff.type === 'remove') {
+		const node = diff.oldValue as JuniperNode;
+		const index = parent.children.findIndex((child) => isSame(child, node));
+		if (index === -1) {
+			return parent.children.some((child) => isSameStatement(child, node))
+				? `${label} has changed since the diff was computed`
+				: `${label} does not exist`;
+		}
+		parent.children.splice(index, 1);
+		return null;
+	}
+
+	// Changes to the root node itself have an empty path
+	const candidates = diff.absolutePath.length
+		? parent.children.filter((child) => nodeLabel(child) === label)
+		: [ast];
+	if (!candidates.length) return `${label} does not exist`;
+
+	// Several directives can share a name, change the one that still has the old value
+	const node = candidates.find((child) =>
+		// @ts-ignore
+		isSame(child[diff.property], diff.oldValue),
+	);
+	if (!node) {
+		// @ts-ignore
+		const found = candidates.map((child) => child[diff.property] ?? null).join(', ');
+		return `Expected ${label} ${diff.property} to be ${diff.oldValue ?? null} but found ${found}`;
+	}
+
+	if (diff.newValue === undefined) {
+		// @ts-ignore
+		delete node[diff.property];
+	} else {
+		// @ts-ignore
+		node[diff.property] = _.cloneDeep(diff.newValue);
+	}
+	return null;
+}
+
+/**
+ * Find the node a move refers to before anything else changes the siblings
+ *
+ * Directives that share a name also share a label, so the node at the old position is taken
+ * when it still has that label. Otherwise the label has to be unique among the siblings.
+ * @return {Object|undefined} - The node to move, if it can be told apart
+ */
+function findMovedNode(parent: JuniperNode, diff: JuniperDiff): JuniperNode | undefined {
+	const label = diff.absolutePath[diff.absolutePath.length - 1];
+	const atIndex = parent.children[diff.oldIndex ?? -1];
+	if (atIndex && nodeLabel(atIndex) === label) return atIndex;
+
+	const candidates = parent.children.filter((child) => nodeLabel(child) === label);
+	return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Place the added and moved children of one parent at their new positions
+ *
+ * Moved children are taken out first, then everything is inserted in the order of the new
+ * AST, so the positions before each insertion are already final.
+ * @param {Object} parent - The node whose children change
+ * @param {Array} changes - The additions and moves, in diff order
+ * @param {Map} moved - The node each move refers to, as found by `findMovedNode`
+ * @return {Array} - The conflicts, as [diff, message] pairs
+ */
+function placeChildren(
+	parent: JuniperNode,
+	changes: JuniperDiff[],
+	moved: Map<JuniperDiff, JuniperNode | undefined>,
+): Array<[JuniperDiff, string]> {
+	const conflicts: Array<[JuniperDiff, string]> = [];
+	const placements: Array<{ node: JuniperNode; index: number }> = [];
+
+	for (const diff of changes) {
+		const label = diff.absolutePath[diff.absolutePath.length - 1];
+
+		if (diff.type === 'move') {
+			const movedNode = moved.get(diff);
+			const index = movedNode ? parent.children.indexOf(movedNode) : -1;
+			if (index === -1) {
+				conflicts.push([diff, `${label} does not exist`]);
+				continue;
+			}
+			const [node] = parent.children.splice(index, 1);
+			placements.push({ node, index: diff.newIndex ?? Infinity });
+			continue;
+		}
+
+		const node = diff.newValue as JuniperNode;
+		if (parent.children.some((child) => isSameStatement(child, node))) {
+			conflicts.push([diff, `${label} already exists`]);
+			continue;
+		}
+		placements.push({
+			node: _.cloneDeep(node),
+			index: Number(diff.path[diff.path.length - 1]),
+		});
+	}
+
+	_.sortBy(placements, 'index').forEach(({ node, index }) => {
+		parent.children.splice(Math.min(index, parent.children.length), 0, node);
+	});
+
+	return conflicts;
+}
+
+/**
+ * Apply a single index-mode difference
+ * @return {string|null} - The conflict message, or null if it was applied
+ */
+function applyIndexChange(ast: JuniperNode, diff: JuniperDiff): string | null {
+	const { path } = diff;
+	const current = path.length ? _.get(ast, path) : ast;
+	const location = path.join('.');
+
+	switch (diff.type) {
+		case 'replace':
+			if (!isSame(current, diff.oldValue)) return `Value at ${location} has changed`;
+			_.set(ast, path, _.cloneDeep(diff.newValue));
+			return null;
+		case 'add': {
+			const list = _.get(ast, path.slice(0, -1));
+			const index = Number(path[path.length - 1]);
+			if (!Array.isArray(list)) return `${path.slice(0, -1).join('.')} is not a list`;
+			if (index > list.length) return `Cannot add at ${location}, the list is too short`;
+			list.splice(index, 0, _.cloneDeep(diff.newValue));
+			return null;
+		}
+		case 'remove': {
+			if (!isSame(current, diff.oldValue)) return `Value at ${location} has changed`;
+			const list = _.get(ast, path.slice(0, -1));
+			list.splice(Number(path[path.length - 1]), 1);
+			return null;
+		}
+		case 'add-prop':
+			if (current !== undefined) return `Property ${location} already exists`;
+			_.set(ast, path, _.cloneDeep(diff.newValue));
+			return null;
+		case 'remove-prop':
+			if (!isSame(current, diff.oldValue)) return `Property ${location} has changed`;
+			_.unset(ast, path);
+			return null;
+		default:
+			return `Unsupported change type "${diff.type}" for index matching`;
+	}
+}
+
+/**
+ * Apply a diff computed by `diffAst` to an AST
+ * @param {Object} ast - The AST to patch, it is not modified
+ * @param {Array} diff - The differences to apply
+ * @param {Object} options - Must use the same `matchBy` the diff was computed with
+ * @return {Object} - The patched AST, the number of applied changes and the conflicts
+ */
+export function applyDiff(
+	ast: JuniperNode,
+	diff: JuniperDiff[],
+	options: ApplyDiffOptions = {},
+): ApplyDiffResult {
+	const { matchBy = 'index' } = options;
+	const patched = _.cloneDeep(ast);
+	const conflicts: DiffConflict[] = [];
+	let applied = 0;
+
+	const record = (change: JuniperDiff, message: string | null) => {
+		if (message) {
+			conflicts.push({ diff: change, message });
+		} else {
+			applied++;
+		}
+	};
+
+	if (matchBy === 'identity') {
+		// Removals and modifications first, additions and moves once the hierarchy is settled
+		const placements = new Map<JuniperNode, JuniperDiff[]>();
+
+		// Removals shift positions, so moved nodes are looked up while the old ones still hold
+		const moved = new Map<JuniperDiff, JuniperNode | undefined>();
+		diff
+			.filter(({ type }) => type === 'move')
+			.forEach((change) => {
+				const parent = findNodeByLabels(patched, change.absolutePath.slice(0, -1));
+				if (parent) moved.set(change, findMovedNode(parent, change));
+			});
+
+		for (const change of diff) {
+			if (change.type !== 'add' && change.type !== 'move') {
+				record(change, applyIdentityChange(patched, change));
+				continue;
+			}
+
+			const parentLabels = change.absolutePath.slice(0, -1);
+			const parent = findNodeByLabels(patched, parentLabels);
+			if (!parent) {
+				record(change, `Hierarchy [edit ${parentLabels.join(' ')}] does not exist`);
+				continue;
+			}
+			placements.set(parent, [...(placements.get(parent) ?? []), change]);
+		}
+
+		placements.forEach((changes, parent) => {
+			const failed = placeChildren(parent, changes, moved);
+			failed.forEach(([change, message]) => record(change, message));
+			applied += changes.length - failed.length;
+		});
+	} else {
+		// Index removals only happen at the end of a list, apply them last and backwards
+		const changes = [
+			...diff.filter(({ type }) => type !== 'remove'),
+			...diff.filter(({ type }) => type === 'remove').reverse(),
+		];
+		changes.forEach((change) => record(change, applyIndexChange(patched, change)));
+	}
+
+	return { ast: patched, applied, conflicts };
+}
@@ -0,0 +1,100 @@
+import { parseJuniperConfig } from './juniper';
+import { parseQuery, queryAst } from './query';
+
+const config = `interfaces {
+    ge-0/0/0 {
+        description uplink;
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family inet {
+                address 10.0.0.3/31;
+            }
+        }
+        unit 100 {
+            description voice;
+            family inet {
+                address 10.1.0.1/24;
+            }
+        }
+    }
+    xe-0/1/0 {
+        disable;
+    }
+}
+protocols {
+    bgp {
+        group EBGP {
+            neighbor 10.0.0.0 {
+                peer-as 65001;
+            }
+            neighbor 10.0.0.2 {
+                peer-as 65002;
+            }
+        }
+        group IBGP {
+            neighbor 192.0.2.1;
+        }
+    }
+}`;
+
+describe('query', () => {
+	const ast = parseJuniperConfig(config);
+	const select = (query: string) => queryAst(ast, query).map(({ absolutePath }) => absolutePath);
+
+	describe('queryAst', () => {
+		it('matches globs and named statements split over two steps', () => {
+			expect(select('interfaces/ge-*/unit/*/family inet/address')).toEqual([
+				['interfaces', 'ge-0/0/0', 'unit 0', 'family inet', 'address'],
+				['interfaces', 'ge-0/0/1', 'unit 0', 'family inet', 'address'],
+				['interfaces', 'ge-0/0/1', 'unit 100', 'family inet', 'address'],
+			]);
+		});
+
+		it('matches names containing slashes step by step', () => {
+			expect(select('interfaces/ge-0/0/1/unit 100')).toEqual([
+				['interfaces', 'ge-0/0/1', 'unit 100'],
+			]);
+		});
+
+		it('filters with predicates', () => {
+			expect(select('protocols/bgp/group[name=EBGP]/neighbor')).toEqual([
+				['protocols', 'bgp', 'group EBGP', 'neighbor 10.0.0.0'],
+				['protocols', 'bgp', 'group EBGP', 'neighbor 10.0.0.2'],
+			]);
+			expect(select('protocols/bgp/group/neighbor[peer-as=65002]')).toEqual([
+				['protocols', 'bgp', 'group EBGP', 'neighbor 10.0.0.2'],
+			]);
+			expect(select('interfaces/*[disable]')).toEqual([['interfaces', 'xe-0/1/0']]);
+		});
+
+		it('matches at any depth', () => {
+			expect(select('//description')).toEqual([
+				['interfaces', 'ge-0/0/0', 'description'],
+				['interfaces', 'ge-0/0/1', 'unit 100', 'description'],
+			]);
+			expect(select('protocols//neighbor[type=directive]')).toEqual([
+				['protocols', 'bgp', 'group IBGP', 'neighbor'],
+			]);
+		});
+
+		it('returns index paths into the AST', () => {
+			const [match] = queryAst(ast, 'protocols/bgp/group IBGP');
+
+			expect(match.path).toEqual(['children', '1', 'children', '0', 'children', '1']);
+			expect(match.node.value).toBe('IBGP');
+		});
+	});
+
+	describe('parseQuery', () => {
+		it('rejects malformed queries', () => {
+			expect(() => parseQuery('')).toThrow('Query is empty');
+			expect(() => parseQuery('interfaces/*[disable')).toThrow('Missing "]"');
+		});
+	});
+});
@@ -0,0 +1,257 @@
+import { formatValue, JuniperNode, nodeLabel } from './juniper';
+
+/**
+ * Juniper Path Queries
+ *
+ * Selects nodes of an AST with XPath/glob style paths:
+ *
+ * - `interfaces/ge-*\/unit/*\/family inet/address` - steps are separated by `/`, a step matches a
+ *   statement name, or its name and value separated by a space. A named statement such as
+ *   `unit 0` can also be matched as two steps, its name and then its value.
+ * - `//description` - `//` matches any number of levels
+ * - `*` matches any characters and `?` a single one. Names that contain `/`, like `ge-0/0/0`,
+ *   can be written as they are.
+ * - `group[name=EBGP]` - predicates filter on the statement's `name` (its value, or the entry
+ *   name inside containers such as `interfaces`), `value`, `type`, the `inactive` and `protect`
+ *   tags, or on a child statement, e.g. `neighbor[peer-as=65001]` or `unit[family]`.
+ */
+
+export interface QueryPredicate {
+	key: string;
+	value?: string;
+}
+
+export interface QueryStep {
+	text: string;
+	// Matches at any depth below the previous step
+	descendant: boolean;
+	predicates: QueryPredicate[];
+}
+
+export interface QueryMatch {
+	node: JuniperNode;
+	// Labels from the root, as in identity-mode diffs
+	absolutePath: string[];
+	// Index path from the root, e.g. ["children", "1", "children", "0"]
+	path: string[];
+}
+
+interface QueryContext {
+	node: JuniperNode;
+	absolutePath: string[];
+	path: string[];
+	// A named statement matched by name only, its value can be the next step
+	open: boolean;
+}
+
+/**
+ * Split a query into steps
+ * @param {string} query - The path query
+ * @return {Array} - The steps, in order
+ */
+export function parseQuery(query: string): QueryStep[] {
+	const steps: QueryStep[] = [];
+	let index = 0;
+	let descendant = false;
+
+	if (!query.trim()) throw new Error('Query is empty');
+
+	while (index < query.length) {
+		if (query[index] === '/') {
+			// Two slashes mark a descendant step, a single one only separates steps
+			if (query[index + 1] === '/') {
+				descendant = true;
+				index += 2;
+			} else {
+				index++;
+			}
+			continue;
+		}
+
+		let text = '';
+		const predicates: QueryPredicate[] = [];
+		while (index < query.length && query[index] !== '/') {
+			if (query[index] === '[') {
+				const end = query.indexOf(']', index);
+				if (end === -1) throw new Error(`Missing "]" in query at position ${index + 1}`);
+				const [key, ...value] = query.slice(index + 1, end).split('=');
+				if (!key.trim()) throw new Error(`Empty predicate in query at position ${index + 1}`);
+				predicates.push(
+					value.length ? { key: key.trim(), value: value.join('=').trim() } : { key: key.trim() },
+				);
+				index = end + 1;
+				continue;
+			}
+			text += query[index++];
+		}
+
+		if (!text.trim()) throw new Error(`Missing step name in query at position ${index}`);
+		steps.push({ text: text.trim(), descendant, predicates });
+		descendant = false;
+	}
+
+	return steps;
+}
+
+/**
+ * Whether a label matches a glob pattern
+ */
+function matchesGlob(pattern: string, label: string): boolean {
+	const source = pattern
+		.split('')
+		.map((char) => {
+			if (char === '*') return '.*';
+			if (char === '?') return '.';
+			return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('');
+	return new RegExp(`^${source}$`).test(label);
+}
+
+/**
+ * Name of a node as used by the `name` predicate
+ */
+function identifierOf(node: JuniperNode): string | null {
+	return node.type === 'named-block' || node.type === 'pattern-block'
+		? node.value ?? null
+		: node.name ?? null;
+}
+
+/**
+ * Whether a node satisfies the predicates of a step
+ */
+function matchesPredicates(node: JuniperNode, predicates: QueryPredicate[]): boolean {
+	return predicates.every(({ key, value }) => {
+		const test = (actual: string | null | undefined) =>
+			value === undefined ? Boolean(actual) : actual != null && matchesGlob(value, actual);
+
+		switch (key) {
+			case 'name':
+				return test(identifierOf(node));
+			case 'value':
+				return test(node.value === null ? null : formatValue(node));
+			case 'type':
+				return test(node.type);
+			case 'inactive':
+			case 'protect':
+				return Boolean(node[key]);
+			default:
+				return node.children.some(
+					(child) =>
+						child.name === key &&
+						(value === undefined ||
+							(child.value !== null && matchesGlob(value, formatValue(child)))),
+				);
+		}
+	});
+}
+
+/**
+ * How many steps, starting at `index`, a label matches
+ *
+ * A step normally matches one label, with `*` matching across `/`. A label that contains `/`
+ * can also be spelled out over several steps, e.g. `ge-0/0/0` as the steps `ge-0`, `0` and `0`.
+ * @param {string} label - The label of a statement
+ * @param {Array} steps - The steps of a query
+ * @param {number} index - The step to start at
+ * @return {number[]} - The possible numbers of consumed steps
+ */
+export function matchLabel(label: string, steps: QueryStep[], index: number): number[] {
+	const counts: number[] = [];
+	if (matchesGlob(steps[index].text, label)) counts.push(1);
+
+	const slashes = label.split('/').length - 1;
+	const window = steps.slice(index, index + slashes + 1);
+	if (
+		slashes &&
+		window.length === slashes + 1 &&
+		window.slice(0, -1).every(({ predicates }) => !predicates.length) &&
+		window.slice(1).every(({ descendant }) => !descendant) &&
+		matchesGlob(window.map(({ text }) => text).join('/'), label)
+	) {
+		counts.push(slashes + 1);
+	}
+
+	return counts;
+}
+
+/**
+ * The nodes a step can match from a context, directly below it or at any depth
+ */
+function candidates(context: QueryContext, descendant: boolean): QueryContext[] {
+	const below = (parent: QueryContext): QueryContext[] =>
+		parent.node.children.flatMap((child, index) => {
+			const entry: QueryContext = {
+				node: child,
+				absolutePath: [...parent.absolutePath, nodeLabel(child)],
+				path: [...parent.path, 'children', index.toString()],
+				open: false,
+			};
+			return descendant ? [entry, ...below(entry)] : [entry];
+		});
+
+	return below(context);
+}
+
+/**
+ * Select the nodes of an AST that match a path query
+ * @param {Object} ast - The root node
+ * @param {string|Array} query - The path query, or the steps from `parseQuery`
+ * @return {Array} - The matching nodes with their paths, in document order
+ */
+export function queryAst(ast: JuniperNode, query: string | QueryStep[]): QueryMatch[] {
+	const steps = typeof query === 'string' ? parseQuery(query) : query;
+	const matches = new Map<JuniperNode, QueryMatch>();
+
+	const walk = (context: QueryContext, index: number) => {
+		if (index === steps.length) {
+			const { node, absolutePath, path } = context;
+			if (!matches.has(node)) matches.set(node, { node, absolutePath, path });
+			return;
+		}
+
+		const step = steps[index];
+		const last = (count: number) => steps[index + count - 1];
+
+		// The value of a named statement matched by its name only
+		if (context.open && !step.descendant && context.node.value !== null) {
+			for (const count of matchLabel(formatValue(context.node), steps, index)) {
+				if (matchesPredicates(context.node, last(count).predicates)) {
+					walk({ ...context, open: false }, index + count);
+				}
+			}
+		}
+
+		for (const candidate of candidates(context, step.descendant)) {
+			const { node } = candidate;
+			const isNamed = node.type === 'named-block' || node.type === 'pattern-block';
+			const labels: Array<[string, boolean]> = [[nodeLabel(node), false]];
+			if (isNamed) labels.push([node.name ?? '', true]);
+			if (node.type === 'directive' && node.value !== null) {
+				labels.push([`${node.name} ${formatValue(node)}`, false]);
+			}
+
+			for (const [label, open] of labels) {
+				for (const count of matchLabel(label, steps, index)) {
+					if (matchesPredicates(node, last(count).predicates)) {
+						// A predicate on the name settles the value
+						const settled = last(count).predicates.some(({ key }) => key === 'name');
+						walk({ ...candidate, open: open && !settled }, index + count);
+					}
+				}
+			}
+		}
+	};
+
+	walk({ node: ast, absolutePath: [], path: [], open: false }, 0);
+
+	// Branches can reach nodes out of order, sort them back into document order
+	const order = (match: QueryMatch) => match.path.filter((_segment, i) => i % 2).map(Number);
+	return [...matches.values()].sort((a, b) => {
+		const [left, right] = [order(a), order(b)];
+		for (let i = 0; i < Math.min(left.length, right.length); i++) {
+			if (left[i] !== right[i]) return left[i] - right[i];
+		}
+		return left.length - right.length;
+	});
+}
@@ -0,0 +1,69 @@
+import { astToConfig, parseJuniperConfig } from './juniper';
+import { redactSecrets, restoreSecrets } from './redact';
+
+const config = `system {
+    login {
+        user admin {
+            authentication {
+                encrypted-password "$6$abc$def";
+            }
+        }
+        message "Authorized use only";
+    }
+    radius-server {
+        10.0.0.5 {
+            secret "$9$radius";
+        }
+    }
+    tacplus-server {
+        10.0.0.6 {
+            secret "$9$radius";
+        }
+    }
+}
+snmp {
+    community public {
+        authorization read-only;
+    }
+}`;
+
+describe('redact', () => {
+	const ast = parseJuniperConfig(config);
+
+	describe('redactSecrets', () => {
+		it('replaces secrets with stable tokens', () => {
+			const { ast: redacted, tokens } = redactSecrets(ast);
+
+			expect(astToConfig(redacted)).toContain('encrypted-password "__SECRET_1__";');
+			expect(astToConfig(redacted)).toContain('community __SECRET_3__ {');
+			expect(astToConfig(redacted).match(/secret "__SECRET_2__";/g)).toHaveLength(2);
+			expect(tokens).toEqual({
+				__SECRET_1__: '$6$abc$def',
+				__SECRET_2__: '$9$radius',
+				__SECRET_3__: 'public',
+			});
+		});
+
+		it('redacts extra paths and shares tokens across ASTs', () => {
+			const shared: Record<string, string> = { __SECRET_1__: 'public' };
+			const { tokens } = redactSecrets(ast, { paths: ['system/login/message'], tokens: shared });
+
+			expect(tokens.__SECRET_1__).toBe('public');
+			expect(Object.values(tokens)).toContain('Authorized use only');
+			expect(Object.keys(shared)).toHaveLength(4);
+		});
+
+		it('rejects malformed paths', () => {
+			expect(() => redactSecrets(ast, { paths: ['system/[x'] })).toThrow('Secret path "system/[x"');
+		});
+	});
+
+	describe('restoreSecrets', () => {
+		it('restores ASTs and text', () => {
+			const { ast: redacted, tokens } = redactSecrets(ast);
+
+			expect(restoreSecrets(redacted, tokens)).toEqual(ast);
+			expect(restoreSecrets(astToConfig(redacted), tokens)).toBe(astToConfig(ast));
+		});
+	});
+});
@@ -0,0 +1,106 @@
+import _ from 'lodash';
+import { JuniperNode } from './juniper';
+import { parseQuery, queryAst } from './query';
+
+/**
+ * Secret Redaction
+ *
+ * Replaces passwords, keys and SNMP communities in an AST with placeholder tokens such as
+ * `__SECRET_1__`, so the AST and anything generated from it can be logged or shared. The token
+ * map that comes back holds the original values, for a trusted step to restore them with
+ * `restoreSecrets`.
+ */
+
+/**
+ * Path queries (see `queryAst`) of the statements whose values are secret
+ */
+export const SECRET_PATHS = [
+	'//encrypted-password',
+	'//authentication-key',
+	'//authentication-password',
+	'//privacy-password',
+	'//simple-password',
+	'//secret',
+	'//pre-shared-key',
+	'//md5/key',
+	'snmp/community',
+	'snmp//community-name',
+];
+
+export interface RedactOptions {
+	// Path queries of further secret statements, on top of SECRET_PATHS
+	paths?: string[];
+	// Tokens handed out before, extended in place, so a value gets the same token in every AST
+	tokens?: Record<string, string>;
+}
+
+export interface RedactResult {
+	ast: JuniperNode;
+	// Original value by token, for the secrets found in this AST
+	tokens: Record<string, string>;
+}
+
+const TOKEN = /__SECRET_\d+__/g;
+
+/**
+ * Replace secret values with placeholder tokens
+ * @param {Object} ast - The configuration, which is not changed
+ * @param {Object} options - Extra secret paths and the tokens handed out so far
+ * @return {Object} - The redacted AST and the original value of each token in it
+ */
+export function redactSecrets(ast: JuniperNode, options: RedactOptions = {}): RedactResult {
+	const { paths = [], tokens: known = {} } = options;
+	const redacted = _.cloneDeep(ast);
+	const tokens: Record<string, string> = {};
+	const byValue = new Map(Object.entries(known).map(([token, value]) => [value, token]));
+
+	paths.forEach((path) => {
+		try {
+			parseQuery(path);
+		} catch (error) {
+			throw new Error(`Secret path "${path}": ${error.message}`);
+		}
+	});
+
+	for (const path of [...SECRET_PATHS, ...paths]) {
+		for (const { node } of queryAst(redacted, path)) {
+			// Values already redacted by an earlier path are left alone
+			if (node.value === null || /^__SECRET_\d+__$/.test(node.value)) continue;
+
+			let token = byValue.get(node.value);
+			if (!token) {
+				token = `__SECRET_${byValue.size + 1}__`;
+				byValue.set(node.value, token);
+				known[token] = node.value;
+			}
+			tokens[token] = node.value;
+			node.value = token;
+		}
+	}
+
+	return { ast: redacted, tokens };
+}
+
+/**
+ * Put the original values back in place of the placeholder tokens
+ * @param {Object|string} input - A redacted AST, or text such as a rendered config or template
+ * @param {Object} tokens - The original value by token, from `redactSecrets`
+ * @return {Object|string} - A restored copy of the input
+ */
+export function restoreSecrets<T extends JuniperNode | string>(
+	input: T,
+	tokens: Record<string, string>,
+): T {
+	const restore = (text: string) => text.replace(TOKEN, (token) => tokens[token] ?? token);
+
+	if (typeof input === 'string') return restore(input) as T;
+
+	const restored = _.cloneDeep(input) as JuniperNode;
+	const walk = (node: JuniperNode) => {
+		if (node.value !== null) node.value = restore(node.value);
+		node.children.forEach(walk);
+	};
+	walk(restored);
+
+	return restored as T;
+}
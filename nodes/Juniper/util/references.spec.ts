@@ -0,0 +1,217 @@
+import { parseJuniperConfig } from './juniper';
+import { buildReferenceIndex, checkReferences, findReferences } from './references';
+
+const config = `interfaces {
+    ge-0/0/0 {
+        unit 0 {
+            family inet filter input PROTECT;
+        }
+    }
+    ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 20 v30 100-200 ];
+                }
+            }
+        }
+    }
+    lo0 {
+        unit 0 {
+            family inet {
+                filter {
+                    input PROTECT;
+                    output MISSING-FILTER;
+                }
+            }
+        }
+    }
+}
+vlans {
+    v10 {
+        vlan-id 10;
+    }
+    v20 {
+        vlan-id 20;
+    }
+    v99 {
+        vlan-id 99;
+        l3-interface irb.99;
+    }
+}
+policy-options {
+    prefix-list LOCAL {
+        10.0.0.0/8;
+    }
+    prefix-list UNUSED {
+        192.0.2.0/24;
+    }
+    policy-statement EXPORT {
+        term 1 {
+            from {
+                prefix-list LOCAL;
+                community [ C1 C2 ];
+            }
+            then accept;
+        }
+    }
+    policy-statement COMBINED {
+        from policy [ ( EXPORT && REJECT-ALL ) ];
+    }
+    community C1 members 65000:1;
+}
+firewall {
+    family inet {
+        filter PROTECT {
+            term a {
+                then accept;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        group G {
+            import COMBINED;
+            export [ EXPORT NEXT ];
+        }
+    }
+    ospf {
+        area 0.0.0.0 {
+            interface lo0.0 passive;
+            interface all;
+        }
+    }
+}
+routing-instances {
+    CUST {
+        interface ge-0/0/2.0;
+        inactive: interface ge-0/0/3.0;
+    }
+}`;
+
+describe('references', () => {
+	const ast = parseJuniperConfig(config);
+
+	describe('buildReferenceIndex', () => {
+		it('lists the definitions and uses of every object', () => {
+			const objects = buildReferenceIndex(ast);
+
+			expect(objects.find(({ name }) => name === 'PROTECT')).toEqual({
+				kind: 'firewall-filter',
+				name: 'PROTECT',
+				defined: true,
+				definitions: [['firewall', 'family inet', 'filter PROTECT']],
+				references: [
+					['interfaces', 'ge-0/0/0', 'unit 0', 'family'],
+					['interfaces', 'lo0', 'unit 0', 'family inet', 'filter', 'input'],
+				],
+			});
+			expect(findReferences(objects, 'policy-statement', 'EXPORT')).toEqual([
+				['policy-options', 'policy-statement COMBINED', 'from'],
+				['protocols', 'bgp', 'group G', 'export'],
+			]);
+			expect(findReferences(objects, 'interface', 'lo0.0')).toEqual([
+				['protocols', 'ospf', 'area 0.0.0.0', 'interface'],
+			]);
+			// VLAN IDs resolve to the VLAN that has them
+			expect(findReferences(objects, 'vlan', 'v20')).toHaveLength(1);
+			expect(objects.some(({ name }) => name === 'all' || name === '100-200')).toBe(false);
+		});
+	});
+
+	describe('checkReferences', () => {
+		it('reports undefined references and unused objects', () => {
+			const report = checkReferences(ast);
+			const list = (usages: Array<{ kind: string; name: string }>) =>
+				usages.map(({ kind, name }) => `${kind} ${name}`);
+
+			expect(report.valid).toBe(false);
+			expect(list(report.undefinedReferences)).toEqual([
+				'vlan v30',
+				'firewall-filter MISSING-FILTER',
+				'interface irb.99',
+				'community C2',
+				'policy-statement REJECT-ALL',
+				'policy-statement NEXT',
+				'interface ge-0/0/2.0',
+			]);
+			expect(report.undefinedReferences[1].path).toEqual([
+				'interfaces',
+				'lo0',
+				'unit 0',
+				'family inet',
+				'filter',
+				'output',
+			]);
+			expect(list(report.unusedObjects)).toEqual(['vlan v99', 'prefix-list UNUSED']);
+		});
+
+		it('passes a configuration whose references all resolve', () => {
+			const report = checkReferences(
+				parseJuniperConfig(`policy-options {
+    policy-statement EXPORT {
+        then accept;
+    }
+}
+protocols {
+    bgp {
+        group G {
+            export EXPORT;
+        }
+    }
+}`),
+			);
+
+			expect(report).toMatchObject({ valid: true, undefinedReferences: [], unusedObjects: [] });
+		});
+
+		it('counts the statements inherited from groups', () => {
+			const report = checkReferences(
+				parseJuniperConfig(`groups {
+    re0 {
+        interfaces {
+            fxp0 {
+                unit 0 {
+                    family inet {
+                        address 10.0.0.10/24;
+                    }
+                }
+            }
+        }
+    }
+}
+apply-groups re0;
+routing-instances {
+    mgmt_junos {
+        interface fxp0.0;
+    }
+}`),
+			);
+
+			expect(report).toMatchObject({ valid: true, undefinedReferences: [] });
+			expect(findReferences(report.objects, 'interface', 'fxp0.0')).toEqual([
+				['routing-instances', 'mgmt_junos', 'interface'],
+			]);
+		});
+
+		it('reports groups that are applied but not defined', () => {
+			const report = checkReferences(
+				parseJuniperConfig(`groups {
+    BASE {
+        system {
+            host-name r1;
+        }
+    }
+}
+apply-groups [ BASE MISSING ];`),
+			);
+
+			expect(report.valid).toBe(false);
+			expect(report.undefinedReferences).toEqual([
+				{ kind: 'group', name: 'MISSING', path: ['apply-groups'] },
+			]);
+			expect(findReferences(report.objects, 'group', 'BASE')).toEqual([['apply-groups']]);
+		});
+	});
+});
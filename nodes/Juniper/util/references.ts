@@ -0,0 +1,340 @@
+import { expandGroups } from './groups';
+import { JuniperNode, nodeLabel } from './juniper';
+
+/**
+ * Cross-References
+ *
+ * Junos statements refer to objects defined elsewhere in the configuration: routing policies
+ * by `import` and `export`, prefix lists and communities from policy terms, firewall filters
+ * from interfaces, VLANs from `vlan members`, interfaces from routing instances, zones and
+ * protocols. This module indexes the definitions and uses of those objects, so references
+ * to objects that are not defined and objects that nothing uses can be reported.
+ *
+ * Statements are matched as the words of their set commands, e.g.
+ * `interfaces lo0 unit 0 family inet filter input PROTECT`. Inactive statements and the
+ * `groups` stanza are left out of the index, apart from the names of the groups `apply-groups`
+ * refers to. `checkReferences` expands the defined groups first so that inherited statements
+ * count.
+ */
+
+export type ObjectKind =
+	| 'policy-statement'
+	| 'prefix-list'
+	| 'community'
+	| 'as-path'
+	| 'firewall-filter'
+	| 'vlan'
+	| 'interface'
+	| 'routing-instance'
+	| 'security-zone'
+	| 'group';
+
+export interface ObjectUsage {
+	kind: ObjectKind;
+	name: string;
+	// Labels from the root to the statement, as in identity-mode diffs
+	path: string[];
+}
+
+export interface ReferencedObject {
+	kind: ObjectKind;
+	name: string;
+	defined: boolean;
+	definitions: string[][];
+	references: string[][];
+}
+
+export interface ReferenceReport {
+	// No reference to an undefined object was found
+	valid: boolean;
+	undefinedReferences: ObjectUsage[];
+	unusedObjects: ObjectUsage[];
+	objects: ReferencedObject[];
+}
+
+/**
+ * Word patterns of set commands: `*` matches one word, `**` any number of words, `a|b` one of
+ * the words, `$` captures an object name and `$+` captures every remaining word
+ */
+interface ReferenceRule {
+	kind: ObjectKind;
+	pattern: string[];
+	// Join the captured words with a dot into one name, e.g. an interface and its unit
+	join?: boolean;
+}
+
+const DEFINITIONS: ReferenceRule[] = [
+	{ kind: 'policy-statement', pattern: ['policy-options', 'policy-statement', '$', '**'] },
+	{ kind: 'prefix-list', pattern: ['policy-options', 'prefix-list', '$', '**'] },
+	{ kind: 'community', pattern: ['policy-options', 'community', '$', '**'] },
+	{ kind: 'as-path', pattern: ['policy-options', 'as-path', '$', '**'] },
+	{ kind: 'firewall-filter', pattern: ['firewall', 'filter', '$', '**'] },
+	{ kind: 'firewall-filter', pattern: ['firewall', 'family', '*', 'filter', '$', '**'] },
+	{ kind: 'vlan', pattern: ['vlans', '$', '**'] },
+	{ kind: 'vlan', pattern: ['routing-instances', '*', 'vlans', '$', '**'] },
+	{ kind: 'interface', pattern: ['interfaces', '$', '**'] },
+	{ kind: 'interface', pattern: ['interfaces', '$', 'unit', '$', '**'], join: true },
+	{ kind: 'routing-instance', pattern: ['routing-instances', '$', '**'] },
+	{ kind: 'security-zone', pattern: ['security', 'zones', 'security-zone', '$', '**'] },
+];
+
+const REFERENCES: ReferenceRule[] = [
+	{ kind: 'policy-statement', pattern: ['**', 'import|export|vrf-import|vrf-export', '$+'] },
+	{ kind: 'policy-statement', pattern: ['**', 'from', 'policy', '$+'] },
+	{
+		kind: 'prefix-list',
+		pattern: [
+			'**',
+			'from',
+			'prefix-list|prefix-list-filter|source-prefix-list|destination-prefix-list',
+			'$',
+			'**',
+		],
+	},
+	{ kind: 'community', pattern: ['**', 'from', 'community', '$+'] },
+	{ kind: 'community', pattern: ['**', 'then', 'community', 'add|set|delete', '$'] },
+	{ kind: 'as-path', pattern: ['**', 'from', 'as-path', '$+'] },
+	{ kind: 'firewall-filter', pattern: ['**', 'filter', 'input|output', '$'] },
+	{ kind: 'firewall-filter', pattern: ['**', 'filter', 'input-list|output-list', '$+'] },
+	{ kind: 'vlan', pattern: ['**', 'vlan', 'members', '$+'] },
+	{ kind: 'interface', pattern: ['routing-instances', '*', 'interface', '$', '**'] },
+	{ kind: 'interface', pattern: ['vlans', '*', 'interface', '$', '**'] },
+	{ kind: 'interface', pattern: ['**', 'l3-interface', '$'] },
+	{
+		kind: 'interface',
+		pattern: ['security', 'zones', 'security-zone', '*', 'interfaces', '$', '**'],
+	},
+	{ kind: 'interface', pattern: ['protocols', '**', 'interface', '$', '**'] },
+	{
+		kind: 'interface',
+		pattern: ['routing-instances', '*', 'protocols', '**', 'interface', '$', '**'],
+	},
+	{ kind: 'routing-instance', pattern: ['firewall', '**', 'then', 'routing-instance', '$'] },
+	{
+		kind: 'security-zone',
+		pattern: ['security', 'policies', 'from-zone', '$', 'to-zone', '$', '**'],
+	},
+	{ kind: 'security-zone', pattern: ['security', 'nat', '**', 'from|to', 'zone', '$+'] },
+	{ kind: 'group', pattern: ['**', 'apply-groups|apply-groups-except', '$+'] },
+];
+
+// VLANs can be referenced by ID as well as by name
+const VLAN_IDS: ReferenceRule = { kind: 'vlan', pattern: ['vlans', '$', 'vlan-id', '$'] };
+
+// Names that stand for every object or a built-in one rather than a configured object
+const RESERVED_NAMES: Partial<Record<ObjectKind, Set<string>>> = {
+	interface: new Set(['all']),
+	vlan: new Set(['all']),
+	'security-zone': new Set(['junos-host']),
+};
+
+// Objects that serve no purpose unless something refers to them
+const REPORT_UNUSED = new Set<ObjectKind>([
+	'policy-statement',
+	'prefix-list',
+	'community',
+	'as-path',
+	'firewall-filter',
+	'vlan',
+]);
+
+interface StatementLine {
+	words: string[];
+	// Labels of the statement each word belongs to
+	paths: string[][];
+}
+
+/**
+ * The words a node contributes to its set command, quoted values are a single word
+ */
+function statementWords(node: JuniperNode): string[] {
+	if (node.value === null || node.list || node.type === 'block') return [node.name ?? ''];
+	if (node.quoted) return [node.name ?? '', node.value];
+	return [node.name ?? '', ...node.value.split(/\s+/)];
+}
+
+/**
+ * Every active statement of an AST as the words of its set command
+ */
+function statementLines(ast: JuniperNode): StatementLine[] {
+	const lines: StatementLine[] = [];
+
+	const visit = (node: JuniperNode, line: StatementLine, labels: string[]) => {
+		for (const child of node.children) {
+			if (child.inactive || (node.type === 'root' && child.name === 'groups')) continue;
+
+			const path = [...labels, nodeLabel(child)];
+			const words = statementWords(child);
+			const next = {
+				words: [...line.words, ...words],
+				paths: [...line.paths, ...words.map(() => path)],
+			};
+
+			if (child.list) {
+				// Each list value is its own set command
+				for (const value of child.value?.split(/\s+/).filter(Boolean) ?? []) {
+					lines.push({ words: [...next.words, value], paths: [...next.paths, path] });
+				}
+			} else if (child.children.length) {
+				visit(child, next, path);
+			} else {
+				lines.push(next);
+			}
+		}
+	};
+
+	visit(ast, { words: [], paths: [] }, []);
+	return lines;
+}
+
+/**
+ * Match a pattern against the words of a statement
+ * @param {Array} pattern - The rule pattern
+ * @param {Array} words - The words of the statement
+ * @return {Array} - For every way the pattern matches, the indexes of the captured words
+ */
+function matchWords(pattern: string[], words: string[]): number[][] {
+	const match = (p: number, w: number): number[][] => {
+		if (p === pattern.length) return w === words.length ? [[]] : [];
+
+		const token = pattern[p];
+		if (token === '**') {
+			const results: number[][] = [];
+			for (let skip = w; skip <= words.length; skip++) results.push(...match(p + 1, skip));
+			return results;
+		}
+		if (token === '$+') {
+			if (w === words.length) return [];
+			return [Array.from({ length: words.length - w }, (_item, index) => w + index)];
+		}
+		if (w === words.length) return [];
+		if (token === '$') return match(p + 1, w + 1).map((captures) => [w, ...captures]);
+		if (token === '*' || token.split('|').includes(words[w])) return match(p + 1, w + 1);
+		return [];
+	};
+
+	return match(0, 0);
+}
+
+/**
+ * The objects a statement defines or refers to according to a set of rules
+ */
+function applyRules(rules: ReferenceRule[], line: StatementLine): ObjectUsage[] {
+	return rules.flatMap(({ kind, pattern, join }) =>
+		matchWords(pattern, line.words).flatMap((captures): ObjectUsage[] => {
+			if (join) {
+				const name = captures.map((index) => line.words[index]).join('.');
+				return [{ kind, name, path: line.paths[captures[captures.length - 1]] }];
+			}
+			// Policy expressions such as `[ ( A && !B ) ]` combine names with operators
+			return captures
+				.map((index) => ({
+					kind,
+					name: line.words[index].replace(/^[[(!]+|[)\]]+$/g, ''),
+					path: line.paths[index],
+				}))
+				.filter(({ name }) => name && !/^(&&|\|\|)$/.test(name));
+		}),
+	);
+}
+
+/**
+ * Index the objects a configuration defines and the statements that refer to them
+ * @param {Object} ast - The configuration
+ * @return {Array} - Every object that is defined or referenced, with the paths of both
+ */
+export function buildReferenceIndex(ast: JuniperNode): ReferencedObject[] {
+	const objects = new Map<string, ReferencedObject & { seen: Set<string> }>();
+	const vlanIds = new Map<string, string>();
+
+	const record = ({ kind, name, path }: ObjectUsage, role: 'definitions' | 'references') => {
+		const key = `${kind}|${name}`;
+		if (!objects.has(key)) {
+			objects.set(key, {
+				kind,
+				name,
+				defined: false,
+				definitions: [],
+				references: [],
+				seen: new Set(),
+			});
+		}
+		const object = objects.get(key) as ReferencedObject & { seen: Set<string> };
+		// Several statements below one definition or reference report it once
+		const pathKey = `${role}|${path.join('\u0000')}`;
+		if (object.seen.has(pathKey)) return;
+		object.seen.add(pathKey);
+		object[role].push(path);
+		if (role === 'definitions') object.defined = true;
+	};
+
+	// The groups stanza is left out of the statements, only the groups themselves are defined
+	ast.children
+		.filter((child) => child.name === 'groups' && child.type === 'block' && !child.inactive)
+		.flatMap((child) => child.children)
+		.filter((group) => !group.inactive)
+		.forEach((group) =>
+			record(
+				{ kind: 'group', name: group.name ?? '', path: ['groups', nodeLabel(group)] },
+				'definitions',
+			),
+		);
+
+	const lines = statementLines(ast);
+	for (const line of lines) {
+		applyRules(DEFINITIONS, line).forEach((usage) => record(usage, 'definitions'));
+		matchWords(VLAN_IDS.pattern, line.words).forEach(([name, id]) =>
+			vlanIds.set(line.words[id], line.words[name]),
+		);
+	}
+
+	for (const line of lines) {
+		for (const usage of applyRules(REFERENCES, line)) {
+			if (RESERVED_NAMES[usage.kind]?.has(usage.name)) continue;
+			if (usage.kind === 'vlan') {
+				// A range of IDs does not have to match configured VLANs
+				if (/^\d+-\d+$/.test(usage.name)) continue;
+				usage.name = vlanIds.get(usage.name) ?? usage.name;
+			}
+			record(usage, 'references');
+		}
+	}
+
+	return [...objects.values()].map(({ seen: _seen, ...object }) => object);
+}
+
+/**
+ * The statements that refer to an object
+ * @param {Array} objects - The index from `buildReferenceIndex`
+ * @param {string} kind - The kind of object, e.g. "policy-statement"
+ * @param {string} name - The object name
+ * @return {Array} - The paths of the referring statements, empty for an unknown object
+ */
+export function findReferences(
+	objects: ReferencedObject[],
+	kind: ObjectKind,
+	name: string,
+): string[][] {
+	return objects.find((object) => object.kind === kind && object.name === name)?.references ?? [];
+}
+
+/**
+ * Report references to undefined objects and objects that are never referenced
+ * @param {Object} ast - The configuration, the groups it defines are expanded before it is
+ * indexed and the ones it applies without defining them are undefined references
+ * @return {Object} - The findings, and the index they were taken from
+ */
+export function checkReferences(ast: JuniperNode): ReferenceReport {
+	const objects = buildReferenceIndex(
+		expandGroups(ast, { keepGroups: true, ignoreUndefined: true }),
+	);
+
+	const undefinedReferences = objects
+		.filter(({ defined }) => !defined)
+		.flatMap(({ kind, name, references }) => references.map((path) => ({ kind, name, path })));
+	const unusedObjects = objects
+		.filter(({ kind, references }) => REPORT_UNUSED.has(kind) && !references.length)
+		.map(({ kind, name, definitions }) => ({ kind, name, path: definitions[0] }));
+
+	return { valid: !undefinedReferences.length, undefinedReferences, unusedObjects, objects };
+}
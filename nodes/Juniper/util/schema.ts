@@ -0,0 +1,165 @@
+/**
+ * Lightweight knowledge of the Junos statement hierarchy
+ *
+ * Formats such as `display set` do not say whether a word opens a block, names an
+ * entry or is a plain value. These tables cover the common statements so those formats
+ * can be mapped onto the same AST shape the curly-brace parser produces.
+ */
+
+/**
+ * Containers whose entries are written as a bare name, e.g. `interfaces { ge-0/0/0 { ... } }`
+ */
+export const IMPLICIT_NAME_CONTAINERS = new Set([
+	'interfaces',
+	'vlans',
+	'groups',
+	'routing-instances',
+	'bridge-domains',
+	'logical-systems',
+]);
+
+/**
+ * Statements that always open a plain block, even when they only hold a single child
+ */
+export const CONTAINER_STATEMENTS = new Set([
+	'system',
+	'services',
+	'protocols',
+	'routing-options',
+	'policy-options',
+	'security',
+	'firewall',
+	'snmp',
+	'chassis',
+	'class-of-service',
+	'forwarding-options',
+	'ethernet-switching-options',
+	'switch-options',
+	'event-options',
+	'applications',
+	'access',
+	'zones',
+	'policies',
+	'static',
+	'login',
+	'syslog',
+	'ntp',
+	'bgp',
+	'ospf',
+	'ospf3',
+	'lldp',
+	'lldp-med',
+	'rstp',
+	'mstp',
+	'vstp',
+	'igmp-snooping',
+	'poe',
+	'virtual-chassis',
+	'nat',
+	'screen',
+]);
+
+/**
+ * Statements that take an identifier and open a block for it, e.g. `unit 0 { ... }`
+ */
+export const NAMED_STATEMENTS = new Set([
+	'unit',
+	'family',
+	'group',
+	'neighbor',
+	'term',
+	'policy-statement',
+	'prefix-list',
+	'community',
+	'filter',
+	'interface',
+	'interface-range',
+	'area',
+	'security-zone',
+	'route',
+	'user',
+	'rule',
+	'rule-set',
+	'pool',
+	'instance',
+	'server',
+	'host',
+	'policy',
+	'application',
+	'address-set',
+	'as-path',
+]);
+
+/**
+ * Statements whose repeated values are written as a list, e.g. `members [ a b ];`
+ */
+export const LIST_STATEMENTS = new Set([
+	'members',
+	'apply-groups',
+	'apply-groups-except',
+	'vlan-id-list',
+	'protocol',
+	'port',
+	'source-port',
+	'destination-port',
+]);
+
+/**
+ * Whether a word looks like an identifier (a name, number or address) rather than a Junos keyword
+ * @param {string} word - The word to check
+ * @return {boolean} - True when the word is not made of lowercase letters and hyphens only
+ */
+export function isIdentifier(word: string): boolean {
+	return !/^[a-z][a-z-]*$/.test(word);
+}
+
+/**
+ * Element that holds each entry of an implicit-name container in Junos XML,
+ * e.g. `<interfaces><interface><name>ge-0/0/0</name></interface></interfaces>`, or each
+ * prefix of a prefix list, e.g. `<prefix-list-item><name>10.0.0.0/8</name></prefix-list-item>`
+ */
+export const IMPLICIT_NAME_ELEMENTS: Record<string, string> = {
+	interfaces: 'interface',
+	vlans: 'vlan',
+	groups: 'group',
+	'routing-instances': 'instance',
+	'bridge-domains': 'domain',
+	'logical-systems': 'logical-system',
+	'prefix-list': 'prefix-list-item',
+};
+
+/**
+ * Named statements whose value is a keyword, written in Junos XML as a child element,
+ * e.g. `family inet` is `<family><inet/></family>`
+ */
+export const KEYWORD_VALUE_STATEMENTS = new Set(['family']);
+
+/**
+ * Named statements that Junos writes on one line when they hold a single value below their
+ * name, e.g. `route 0.0.0.0/0 next-hop 10.0.0.1;`
+ */
+export const ONE_LINE_STATEMENTS = new Set(['route']);
+
+/**
+ * Statements other than the named ones that are keyed by a `<name>` element in Junos XML,
+ * e.g. `address 10.0.0.1/31;` is `<address><name>10.0.0.1/31</name></address>`
+ */
+export const KEYED_ELEMENTS = new Set(['address']);
+
+/**
+ * Statements whose entries take effect in the order they are written, e.g. firewall filter and
+ * policy terms or security policies, so canonical ordering must leave them in place
+ */
+export const ORDERED_STATEMENTS = new Set(['term', 'rule', 'policy']);
+
+/**
+ * Statements whose values take effect in the order they are listed: policy chains, filter
+ * lists and inherited groups
+ */
+export const ORDERED_LIST_STATEMENTS = new Set([
+	'import',
+	'export',
+	'input-list',
+	'output-list',
+	'apply-groups',
+]);
@@ -0,0 +1,225 @@
+import { parseJuniperConfig } from './juniper';
+import { generateChangeCommands, generateChangeScript } from './script';
+
+const before = parseJuniperConfig(`system {
+    host-name r1;
+    ntp {
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description "old uplink";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+    ge-0/0/1 {
+        mtu 9192;
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 ];
+                }
+            }
+        }
+    }
+}
+firewall {
+    filter PROTECT {
+        term a {
+            then accept;
+        }
+        term b {
+            then accept;
+        }
+        term c {
+            then discard;
+        }
+    }
+}`);
+
+const after = parseJuniperConfig(`system {
+    host-name r2;
+    ntp {
+        server 10.0.0.1;
+    }
+    services {
+        ssh;
+    }
+}
+interfaces {
+    ge-0/0/1 {
+        mtu 9192;
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v20 v30 ];
+                }
+            }
+        }
+    }
+    ge-0/0/5 {
+        description "old uplink";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+}
+firewall {
+    filter PROTECT {
+        term c {
+            then discard;
+        }
+        inactive: term a {
+            then accept;
+        }
+        term d {
+            then reject;
+        }
+        term b {
+            then accept;
+        }
+    }
+}`);
+
+describe('script', () => {
+	describe('generateChangeCommands', () => {
+		it('sets, deletes, renames, deactivates and reorders', () => {
+			expect(generateChangeCommands(before, after)).toEqual([
+				'set system host-name r2',
+				'set system services ssh',
+				'rename interfaces ge-0/0/0 to ge-0/0/5',
+				'delete interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v10',
+				'set interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v30',
+				'deactivate firewall filter PROTECT term a',
+				'set firewall filter PROTECT term d then reject',
+				'insert firewall filter PROTECT term a after term c',
+				'insert firewall filter PROTECT term b after term d',
+			]);
+		});
+
+		it('deletes whole hierarchies and returns nothing for the same configuration', () => {
+			expect(
+				generateChangeCommands(
+					before,
+					parseJuniperConfig(`system {
+    host-name r1;
+    ntp {
+        server 10.0.0.1;
+    }
+}`),
+				),
+			).toEqual(['delete interfaces', 'delete firewall']);
+			expect(generateChangeCommands(before, before)).toEqual([]);
+		});
+
+		it('deletes a value before turning the statement into a flag and quotes values', () => {
+			expect(
+				generateChangeCommands(
+					parseJuniperConfig('interfaces { ge-0/0/0 { speed 1g; description uplink; } }'),
+					parseJuniperConfig('interfaces { ge-0/0/0 { speed; description "core link"; } }'),
+				),
+			).toEqual([
+				'delete interfaces ge-0/0/0 speed 1g',
+				'set interfaces ge-0/0/0 speed',
+				'set interfaces ge-0/0/0 description "core link"',
+			]);
+		});
+
+		it('moves an entry to the top before the first one that stays', () => {
+			expect(
+				generateChangeCommands(
+					parseJuniperConfig('policy-options { policy-statement P { term a; term b; term c; } }'),
+					parseJuniperConfig('policy-options { policy-statement P { term c; term a; term b; } }'),
+				),
+			).toEqual(['insert policy-options policy-statement P term c before term a']);
+		});
+
+		it('sets a list up again when its values change order', () => {
+			const bgp = (chain: string) =>
+				parseJuniperConfig(`protocols { bgp { group EBGP { export [ ${chain} ]; } } }`);
+
+			expect(generateChangeScript(bgp('A B'), bgp('B C A'))).toEqual({
+				commands: [
+					'delete protocols bgp group EBGP export',
+					'set protocols bgp group EBGP export B',
+					'set protocols bgp group EBGP export C',
+					'set protocols bgp group EBGP export A',
+				],
+				rollback: [
+					'delete protocols bgp group EBGP export',
+					'set protocols bgp group EBGP export A',
+					'set protocols bgp group EBGP export B',
+				],
+			});
+			expect(generateChangeCommands(bgp('A B'), bgp('A B C'))).toEqual([
+				'set protocols bgp group EBGP export C',
+			]);
+		});
+
+		it('replaces the single value of a list rather than adding to it', () => {
+			const vlan = (members: string) => parseJuniperConfig(`vlans { v { members ${members}; } }`);
+			const bgp = (chain: string) =>
+				parseJuniperConfig(`protocols { bgp { group X { import ${chain}; } } }`);
+
+			expect(generateChangeScript(vlan('v10'), vlan('v20'))).toEqual({
+				commands: ['delete vlans v members v10', 'set vlans v members v20'],
+				rollback: ['delete vlans v members v20', 'set vlans v members v10'],
+			});
+			expect(generateChangeCommands(bgp('P1'), bgp('P2'))).toEqual([
+				'delete protocols bgp group X import P1',
+				'set protocols bgp group X import P2',
+			]);
+		});
+
+		it('keeps the values of a list whose order does not matter', () => {
+			const vlan = (members: string) =>
+				parseJuniperConfig(`vlans { v { members [ ${members} ]; } }`);
+
+			expect(generateChangeScript(vlan('v10 v20'), vlan('v20 v10 v30'))).toEqual({
+				commands: ['set vlans v members v30'],
+				rollback: ['delete vlans v members v30'],
+			});
+		});
+
+		it('protects and unprotects statements', () => {
+			const { commands, rollback } = generateChangeScript(
+				parseJuniperConfig('system { host-name r1; }'),
+				parseJuniperConfig(
+					'protect: system { host-name r1; } protect: snmp { protect: location HQ; }',
+				),
+			);
+
+			expect(commands).toEqual([
+				'protect system',
+				'set snmp location HQ',
+				'protect snmp',
+				'protect snmp location HQ',
+			]);
+			expect(rollback).toEqual(['delete snmp', 'unprotect system']);
+		});
+	});
+
+	describe('generateChangeScript', () => {
+		it('generates the rollback from the new configuration back to the old one', () => {
+			const { commands, rollback } = generateChangeScript(before, after);
+
+			expect(commands).toHaveLength(9);
+			expect(rollback).toEqual([
+				'delete system services',
+				'set system host-name r1',
+				'rename interfaces ge-0/0/5 to ge-0/0/0',
+				'delete interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v30',
+				'set interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v10',
+				'delete firewall filter PROTECT term d',
+				'activate firewall filter PROTECT term a',
+				'insert firewall filter PROTECT term c after term b',
+			]);
+		});
+	});
+});
@@ -0,0 +1,278 @@
+import _ from 'lodash';
+import { statementKey } from './groups';
+import { JuniperNode } from './juniper';
+import {
+	IMPLICIT_NAME_CONTAINERS,
+	KEYED_ELEMENTS,
+	LIST_STATEMENTS,
+	NAMED_STATEMENTS,
+	ORDERED_LIST_STATEMENTS,
+	ORDERED_STATEMENTS,
+} from './schema';
+import { commandWords, nodeToSetCommands } from './set';
+
+/**
+ * Change Scripts
+ *
+ * Generates the Junos commands that turn one configuration into another, for `load set` or a
+ * commit script, along with the commands that roll the change back:
+ *
+ * - `set` for added statements and changed values, `delete` for removed ones
+ * - `deactivate` / `activate` and `protect` / `unprotect` when the statement tags change
+ * - a `delete` and a `set` per value of a list, such as `members` or `import`, for the values it
+ *   loses and gains, as `set` adds a value rather than replacing it, also when there is one
+ * - a `delete` of the whole list and a `set` per value when policy chains, filter lists or
+ *   groups change order, as they apply in order and `set` only adds values at the end
+ * - `rename` when an entry such as `unit 0` or an interface is configured unchanged under a new
+ *   name, rather than deleting it and setting it up again
+ * - `insert` when terms, rules or policies, whose order matters, end up in a different order
+ *
+ * Statements are paired by what they configure, as in group inheritance, so a changed value is a
+ * single `set`. Comments and annotations are not part of the script.
+ */
+
+export interface ChangeScript {
+	commands: string[];
+	// The commands that undo `commands`
+	rollback: string[];
+}
+
+const isEntry = (node: JuniperNode) =>
+	(node.type === 'named-block' || node.type === 'directive') &&
+	(NAMED_STATEMENTS.has(node.name ?? '') || KEYED_ELEMENTS.has(node.name ?? '')) &&
+	!node.list &&
+	!/\s/.test(node.value ?? '');
+
+/**
+ * Whether a statement holds a list of values, even with a single value written without brackets
+ */
+const isList = (node: JuniperNode) =>
+	node.type === 'directive' &&
+	(node.list ||
+		LIST_STATEMENTS.has(node.name ?? '') ||
+		ORDERED_LIST_STATEMENTS.has(node.name ?? ''));
+
+/**
+ * What a statement configures, without source positions and comments
+ */
+function content(node: JuniperNode): unknown {
+	return {
+		..._.pick(node, ['type', 'name', 'value', 'inactive', 'protect', 'quoted', 'list']),
+		children: node.children.map(content),
+	};
+}
+
+/**
+ * Whether a removed statement can be renamed into an added one: an entry of the same statement,
+ * or an entry of a container such as `interfaces`, with the same configuration below it
+ */
+function canRename(from: JuniperNode, to: JuniperNode, parent: JuniperNode): boolean {
+	const sameKind =
+		(isEntry(from) && isEntry(to) && from.name === to.name) ||
+		(from.type === 'block' &&
+			to.type === 'block' &&
+			IMPLICIT_NAME_CONTAINERS.has(parent.name ?? ''));
+	return (
+		sameKind &&
+		Boolean(from.inactive) === Boolean(to.inactive) &&
+		_.isEqual(from.children.map(content), to.children.map(content))
+	);
+}
+
+/**
+ * Indexes of a longest increasing subsequence, the entries that can stay where they are
+ */
+function longestIncreasing(positions: number[]): Set<number> {
+	const lengths = positions.map(() => 1);
+	const previous = positions.map(() => -1);
+
+	positions.forEach((position, i) => {
+		for (let j = 0; j < i; j++) {
+			if (positions[j] < position && lengths[j] + 1 > lengths[i]) {
+				lengths[i] = lengths[j] + 1;
+				previous[i] = j;
+			}
+		}
+	});
+
+	const kept = new Set<number>();
+	let index = lengths.indexOf(Math.max(...lengths));
+	while (index !== -1) {
+		kept.add(index);
+		index = previous[index];
+	}
+	return kept;
+}
+
+/**
+ * Insert commands that put ordered entries in their new order. Entries that keep their relative
+ * order stay, every other one is inserted after the entry that precedes it in the new order.
+ * @param {Array} current - The entries in the order they have after the other commands
+ * @param {Array} desired - The same entries in the new order
+ * @param {string} prefix - The hierarchy of the entries
+ * @return {string[]} - The insert commands, as few as possible
+ */
+function insertCommands(current: JuniperNode[], desired: JuniperNode[], prefix: string): string[] {
+	const kept = longestIncreasing(desired.map((node) => current.indexOf(node)));
+	const label = (node: JuniperNode) => commandWords(node).join(' ');
+	const first = desired.find((_node, index) => kept.has(index)) as JuniperNode;
+
+	return desired.flatMap((node, index) => {
+		if (kept.has(index)) return [];
+		return index
+			? [`insert ${prefix}${label(node)} after ${label(desired[index - 1])}`]
+			: [`insert ${prefix}${label(node)} before ${label(first)}`];
+	});
+}
+
+/**
+ * Protect commands for a node set up from scratch, which `nodeToSetCommands` leaves out
+ */
+function protectCommands(node: JuniperNode, prefix: string[]): string[] {
+	const words = [...prefix, ...commandWords(node)];
+	return [
+		...(node.protect ? [`protect ${words.join(' ')}`] : []),
+		...node.children.flatMap((child) => protectCommands(child, words)),
+	];
+}
+
+/**
+ * Commands that turn the children of one node into the children of another
+ * @param {Object} from - The node in the current configuration
+ * @param {Object} to - The node in the new configuration
+ * @param {string[]} prefix - The command words of the hierarchy of both nodes
+ * @return {string[]} - The commands, in order
+ */
+function childCommands(from: JuniperNode, to: JuniperNode, prefix: string[]): string[] {
+	const at = prefix.length ? `${prefix.join(' ')} ` : '';
+	const commands: string[] = [];
+
+	// Pair the statements that configure the same thing, in the new order
+	const unpaired = new Map<string, JuniperNode[]>();
+	from.children.forEach((child) => {
+		const key = statementKey(child);
+		unpaired.set(key, [...(unpaired.get(key) ?? []), child]);
+	});
+	const pairs = to.children.map((child) => {
+		const match = unpaired.get(statementKey(child))?.shift();
+		return { from: match, to: child };
+	});
+
+	// Rename entries that only changed their name, delete what is left
+	const removed = [...unpaired.values()].flat();
+	const renamed = new Map<JuniperNode, JuniperNode>();
+	for (const pair of pairs.filter((candidate) => !candidate.from)) {
+		const index = removed.findIndex((node) => canRename(node, pair.to, to));
+		if (index === -1) continue;
+		const [source] = removed.splice(index, 1);
+		commands.push(
+			`rename ${at}${commandWords(source).join(' ')} to ${commandWords(pair.to).join(' ')}`,
+		);
+		renamed.set(pair.to, source);
+	}
+	removed.forEach((node) => commands.push(`delete ${at}${commandWords(node).join(' ')}`));
+
+	for (const pair of pairs) {
+		if (renamed.has(pair.to)) continue;
+		if (!pair.from) {
+			commands.push(...nodeToSetCommands(pair.to, prefix), ...protectCommands(pair.to, prefix));
+			continue;
+		}
+		commands.push(...statementCommands(pair.from, pair.to, prefix));
+	}
+
+	// Entries whose order matters, as they stand once the others are set: kept and renamed ones
+	// where they were, new ones at the end
+	for (const name of new Set(to.children.map((child) => child.name ?? ''))) {
+		if (!ORDERED_STATEMENTS.has(name)) continue;
+
+		const position = new Map<JuniperNode, number>();
+		pairs.forEach((pair, index) => {
+			const source = pair.from ?? renamed.get(pair.to);
+			position.set(pair.to, source ? from.children.indexOf(source) : from.children.length + index);
+		});
+
+		const desired = to.children.filter((child) => child.name === name && isEntry(child));
+		const current = [...desired].sort(
+			(a, b) => (position.get(a) as number) - (position.get(b) as number),
+		);
+		commands.push(...insertCommands(current, desired, at));
+	}
+
+	return commands;
+}
+
+/**
+ * Commands that turn one statement into another statement that configures the same thing
+ */
+function statementCommands(from: JuniperNode, to: JuniperNode, prefix: string[]): string[] {
+	const at = prefix.length ? `${prefix.join(' ')} ` : '';
+	const words = commandWords(to);
+	const commands: string[] = [];
+	// Whether the statement is deleted and set up again, losing its tags
+	let recreated = false;
+
+	if (isList(from) || isList(to)) {
+		// List values are added and removed one by one, new ones end up at the end
+		const values = (node: JuniperNode) =>
+			node.list ? node.value?.split(/\s+/).filter(Boolean) ?? [] : [node.value ?? ''];
+		const [before, after] = [values(from), values(to)];
+		const added = after.filter((value) => !before.includes(value));
+		recreated =
+			ORDERED_LIST_STATEMENTS.has(to.name ?? '') &&
+			!_.isEqual([...before.filter((value) => after.includes(value)), ...added], after);
+
+		if (recreated) {
+			if (from.protect) commands.push(`unprotect ${at}${to.name}`);
+			commands.push(`delete ${at}${to.name}`);
+			after.forEach((value) => commands.push(`set ${at}${to.name} ${value}`));
+		} else {
+			before
+				.filter((value) => !after.includes(value))
+				.forEach((value) => commands.push(`delete ${at}${to.name} ${value}`));
+			added.forEach((value) => commands.push(`set ${at}${to.name} ${value}`));
+		}
+	} else if (to.children.length || from.children.length) {
+		commands.push(...childCommands(from, to, [...prefix, ...words]));
+		// A container that is configured without anything in it
+		if (!to.children.length) commands.push(`set ${at}${words.join(' ')}`);
+	} else if (!_.isEqual(commandWords(from), words)) {
+		// A value cannot be set to nothing, drop it first
+		if (to.value === null && from.value !== null) {
+			commands.push(`delete ${at}${commandWords(from).join(' ')}`);
+		}
+		commands.push(`set ${at}${words.join(' ')}`);
+	}
+
+	if (recreated ? to.inactive : Boolean(from.inactive) !== Boolean(to.inactive)) {
+		commands.push(`${to.inactive ? 'deactivate' : 'activate'} ${at}${words.join(' ')}`);
+	}
+	if (recreated ? to.protect : Boolean(from.protect) !== Boolean(to.protect)) {
+		commands.push(`${to.protect ? 'protect' : 'unprotect'} ${at}${words.join(' ')}`);
+	}
+
+	return commands;
+}
+
+/**
+ * Generate the commands that turn one configuration into another
+ * @param {Object} oldAst - The current configuration
+ * @param {Object} newAst - The configuration to change it into
+ * @return {string[]} - The set, delete, (de)activate, (un)protect, rename and insert commands, in order
+ */
+export function generateChangeCommands(oldAst: JuniperNode, newAst: JuniperNode): string[] {
+	return childCommands(oldAst, newAst, []);
+}
+
+/**
+ * Generate the commands for a change and for rolling it back
+ * @param {Object} oldAst - The current configuration
+ * @param {Object} newAst - The configuration to change it into
+ * @return {Object} - The commands, and the rollback commands that restore the current configuration
+ */
+export function generateChangeScript(oldAst: JuniperNode, newAst: JuniperNode): ChangeScript {
+	return {
+		commands: generateChangeCommands(oldAst, newAst),
+		rollback: generateChangeCommands(newAst, oldAst),
+	};
+}
@@ -0,0 +1,74 @@
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { astToSetConfig, parseSetConfig } from './set';
+
+const braceConfig = `system {
+    host-name sw-01;
+    services {
+        ssh;
+    }
+}
+interfaces {
+    ge-0/0/0 {
+        description "uplink to core";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/24;
+            }
+        }
+    }
+}
+snmp {
+    community public {
+        authorization read-only;
+    }
+}`;
+
+const setConfig = `set system host-name sw-01
+set system services ssh
+set interfaces ge-0/0/0 description "uplink to core"
+set interfaces ge-0/0/0 unit 0 family inet address 10.0.0.1/24
+set snmp community public authorization read-only`;
+
+describe('set', () => {
+	describe('parseSetConfig', () => {
+		it('builds the same AST as the curly-brace parser', () => {
+			expect(diffAst(parseJuniperConfig(braceConfig), parseSetConfig(setConfig))).toEqual([]);
+		});
+
+		it('collects repeated list values into one list statement', () => {
+			const ast = parseSetConfig(
+				'set vlans v10 vlan-id 10\nset interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v10\nset interfaces ge-0/0/1 unit 0 family ethernet-switching vlan members v20',
+			);
+
+			expect(astToConfig(ast)).toContain('members [ v10 v20 ];');
+			expect(astToSetConfig(ast)).toContain('vlan members v20');
+		});
+
+		it('marks deactivated statements as inactive', () => {
+			const ast = parseSetConfig(`${setConfig}\ndeactivate interfaces ge-0/0/0 unit 0`);
+			const unit = ast.children[1].children[0].children[1];
+
+			expect(unit).toMatchObject({ type: 'named-block', name: 'unit', value: '0', inactive: true });
+		});
+	});
+
+	describe('astToSetConfig', () => {
+		it('prints the set commands for an AST', () => {
+			expect(astToSetConfig(parseJuniperConfig(braceConfig))).toBe(setConfig);
+		});
+
+		it('appends deactivate commands', () => {
+			const ast = parseSetConfig(`${setConfig}\ndeactivate system services`);
+
+			expect(astToSetConfig(ast)).toBe(`${setConfig}\ndeactivate system services`);
+		});
+
+		it('sets each value of a list with its own quotes', () => {
+			const ast = parseJuniperConfig('vlans {\n    v10 {\n        members [ "a b" c ];\n    }\n}');
+			const commands = astToSetConfig(ast);
+
+			expect(commands).toBe('set vlans v10 members "a b"\nset vlans v10 members c');
+			expect(diffAst(ast, parseSetConfig(commands))).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,335 @@
+import { createDiagnostic, createNode, JuniperNode, ParseDiagnostic, ParseResult } from './juniper';
+import {
+	CONTAINER_STATEMENTS,
+	IMPLICIT_NAME_CONTAINERS,
+	isIdentifier,
+	LIST_STATEMENTS,
+	NAMED_STATEMENTS,
+} from './schema';
+import { SourcePosition } from './tokenizer';
+
+/**
+ * Junos "set" Command Format
+ *
+ * This module converts `show configuration | display set` output into the same AST the
+ * curly-brace parser produces, and prints an AST back as set commands.
+ */
+
+interface SetWord {
+	text: string;
+	quoted: boolean;
+	start: SourcePosition;
+	end: SourcePosition;
+}
+
+interface TrieEntry {
+	quoted: boolean;
+	start: SourcePosition;
+	end: SourcePosition;
+	// Start of the word before this one on the command that created the entry
+	ownerStart: SourcePosition;
+	children: Map<string, TrieEntry>;
+}
+
+/**
+ * Split a set command into words, keeping double-quoted strings together
+ * @param {string} line - The command line to split
+ * @param {number} lineNumber - The line number, used for the word positions
+ * @return {Array} - The words of the command
+ */
+function splitWords(line: string, lineNumber: number): SetWord[] {
+	const words: SetWord[] = [];
+	const pattern = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(line)) !== null) {
+		const start = { line: lineNumber, column: match.index + 1 };
+		const end = { line: lineNumber, column: match.index + match[0].length + 1 };
+
+		if (match[1] !== undefined) {
+			words.push({ text: match[1], quoted: true, start, end });
+		} else {
+			words.push({ text: match[2], quoted: false, start, end });
+		}
+	}
+
+	return words;
+}
+
+/**
+ * Parse Junos set commands into an AST
+ * @param {string} config - The set commands to parse, one per line
+ * @return {Object} - The AST representation of the config
+ */
+export function parseSetConfig(config: string): JuniperNode {
+	return parseSetConfigWithDiagnostics(config).ast;
+}
+
+/**
+ * Parse Junos set commands into an AST, reporting any command that could not be applied
+ *
+ * Each node's span covers the words that introduced it on the first command that mentions it.
+ * @param {string} config - The set commands to parse, one per line
+ * @return {Object} - The AST and the diagnostics, in source order
+ */
+export function parseSetConfigWithDiagnostics(config: string): ParseResult {
+	const lines = config.split('\n');
+	const trie = new Map<string, TrieEntry>();
+	const deactivated: SetWord[][] = [];
+	const diagnostics: ParseDiagnostic[] = [];
+
+	lines.forEach((line, index) => {
+		if (/^\s*(#.*)?$/.test(line)) return;
+
+		const [command, ...words] = splitWords(line, index + 1);
+
+		if (command.text === 'set' && words.length) {
+			let level = trie;
+			words.forEach((word, wordIndex) => {
+				let entry = level.get(word.text);
+				if (!entry) {
+					entry = {
+						quoted: word.quoted,
+						start: word.start,
+						end: word.end,
+						ownerStart: (words[wordIndex - 1] ?? word).start,
+						children: new Map(),
+					};
+					level.set(word.text, entry);
+				}
+				level = entry.children;
+			});
+		} else if (command.text === 'deactivate' && words.length) {
+			deactivated.push(words);
+		} else {
+			const message = `Unknown command "${command.text}"`;
+			diagnostics.push(createDiagnostic(lines, 'error', message, command.start));
+		}
+	});
+
+	const ast = createNode('root', null, null, buildNodes(trie, null));
+	ast.span = {
+		start: { line: 1, column: 1 },
+		end: { line: lines.length, column: lines[lines.length - 1].length + 1 },
+	};
+
+	for (const words of deactivated) {
+		const node = findNodeByWords(
+			ast,
+			words.map(({ text }) => text),
+		);
+		if (node) {
+			node.inactive = true;
+		} else {
+			const message = `Could not deactivate "${words.map(({ text }) => text).join(' ')}"`;
+			diagnostics.push(createDiagnostic(lines, 'error', message, words[0].start));
+		}
+	}
+
+	diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+	return { ast, diagnostics };
+}
+
+/**
+ * Attach the span of the words that introduced a node
+ */
+function withSpan(node: JuniperNode, entry: TrieEntry, valueEntry?: TrieEntry): JuniperNode {
+	node.span = valueEntry
+		? { start: { ...valueEntry.ownerStart }, end: { ...valueEntry.end } }
+		: { start: { ...entry.start }, end: { ...entry.end } };
+	return node;
+}
+
+/**
+ * Turn one level of the command trie into AST nodes
+ * @param {Map} level - The trie level to convert
+ * @param {string|null} parentWord - The statement that owns this level
+ * @return {Array} - The AST nodes for this level
+ */
+function buildNodes(level: Map<string, TrieEntry>, parentWord: string | null): JuniperNode[] {
+	const nodes: JuniperNode[] = [];
+
+	for (const [word, entry] of level) {
+		// Entries of "interfaces", "vlans", ... are written with their bare name
+		if (parentWord && IMPLICIT_NAME_CONTAINERS.has(parentWord)) {
+			const node = entry.children.size
+				? createNode('block', word, null, buildNodes(entry.children, word))
+				: createNode('flag', word);
+			nodes.push(withSpan(node, entry));
+			continue;
+		}
+
+		if (!entry.children.size) {
+			nodes.push(withSpan(createNode('flag', word), entry));
+			continue;
+		}
+
+		// A single leaf below a statement is its value, e.g. "authorization read-only;"
+		const entries = [...entry.children];
+		const takesValue =
+			NAMED_STATEMENTS.has(word) ||
+			LIST_STATEMENTS.has(word) ||
+			entries.every(([key]) => isIdentifier(key)) ||
+			(entries.length === 1 && !entries[0][1].children.size);
+		const opensBlock =
+			CONTAINER_STATEMENTS.has(word) || IMPLICIT_NAME_CONTAINERS.has(word) || !takesValue;
+
+		if (opensBlock) {
+			const node = createNode('block', word, null, buildNodes(entry.children, word));
+			nodes.push(withSpan(node, entry));
+			continue;
+		}
+
+		// Repeated values of a list statement, e.g. "members [ a b ];"
+		if (
+			LIST_STATEMENTS.has(word) &&
+			entries.length > 1 &&
+			entries.every(([, valueEntry]) => !valueEntry.children.size)
+		) {
+			const values = entries.map(([value, valueEntry]) =>
+				valueEntry.quoted ? `"${value}"` : value,
+			);
+			// A list with quoted values is kept as written, as the curly-brace parser does
+			const node = entries.some(([, valueEntry]) => valueEntry.quoted)
+				? createNode('directive', word, `[ ${values.join(' ')} ]`)
+				: { ...createNode('directive', word, values.join(' ')), list: true };
+			nodes.push(withSpan(node, entry, entries[0][1]));
+			continue;
+		}
+
+		// The statement takes a value, e.g. "unit 0 { ... }" or "description foo;"
+		for (const [value, valueEntry] of entry.children) {
+			if (valueEntry.children.size) {
+				const type = /^<.+>$/.test(value) ? 'pattern-block' : 'named-block';
+				const node = createNode(type, word, value, buildNodes(valueEntry.children, word));
+				nodes.push(withSpan(node, entry, valueEntry));
+			} else {
+				const node = createNode('directive', word, value);
+				if (valueEntry.quoted) {
+					node.quoted = true;
+				}
+				nodes.push(withSpan(node, entry, valueEntry));
+			}
+		}
+	}
+
+	return nodes;
+}
+
+/**
+ * The values of a list that mixes quoted and bare values, e.g. `members [ "a b" c ];`, which is
+ * parsed as written rather than as a list
+ * @param {Object} node - The AST node
+ * @return {string[]|undefined} - The values with their own quotes, undefined for other nodes
+ */
+function mixedListValues(node: JuniperNode): string[] | undefined {
+	if (node.type !== 'directive' || node.quoted || node.list) return undefined;
+	const match = /^\[\s*(.*?)\s*\]$/.exec(node.value ?? '');
+	return match ? match[1].match(/"(?:[^"\\]|\\.)*"|[^\s"]+/g) ?? [] : undefined;
+}
+
+/**
+ * The words a node contributes to a set command
+ * @param {Object} node - The AST node
+ * @return {string[]} - The words for the node
+ */
+function nodeWords(node: JuniperNode): string[] {
+	if (node.type === 'block' || node.type === 'flag' || node.list || mixedListValues(node)) {
+		return [node.name ?? ''];
+	}
+
+	if (node.type === 'directive' && node.value !== null && !node.quoted) {
+		return [node.name ?? '', ...node.value.split(/\s+/)];
+	}
+
+	return [node.name ?? '', node.value ?? ''];
+}
+
+/**
+ * Find the node a set/deactivate command path points to
+ * @param {Object} parent - The node to search from
+ * @param {string[]} words - The command words below the parent
+ * @return {Object|undefined} - The matching node, if any
+ */
+export function findNodeByWords(parent: JuniperNode, words: string[]): JuniperNode | undefined {
+	for (const child of parent.children) {
+		const childWords = nodeWords(child);
+		const matches = childWords.every((word, index) => words[index] === word);
+
+		if (!matches || childWords.length > words.length) continue;
+		if (childWords.length === words.length) return child;
+
+		const found = findNodeByWords(child, words.slice(childWords.length));
+		if (found) return found;
+	}
+
+	return undefined;
+}
+
+/**
+ * Quote a word for a set command when needed
+ */
+function formatWord(word: string, quoted = false): string {
+	return quoted || word === '' ? `"${word}"` : word;
+}
+
+/**
+ * The words of a node in a command, with its value quoted when needed
+ * @param {Object} node - The AST node
+ * @return {string[]} - The words, e.g. ["description", "\"to core\""]
+ */
+export function commandWords(node: JuniperNode): string[] {
+	const [name, ...rest] = nodeWords(node);
+	return [name, ...rest.map((word) => formatWord(word, node.quoted))];
+}
+
+/**
+ * The set commands that create a node and everything below it
+ * @param {Object} top - The node, or the root for a whole configuration
+ * @param {string[]} hierarchy - The command words of the hierarchy the node is in
+ * @return {string[]} - The set commands, followed by any deactivate commands
+ */
+export function nodeToSetCommands(top: JuniperNode, hierarchy: string[] = []): string[] {
+	const sets: string[] = [];
+	const deactivates: string[] = [];
+
+	const visit = (node: JuniperNode, prefix: string[]) => {
+		const words = [...prefix];
+
+		if (node.type !== 'root') {
+			words.push(...commandWords(node));
+
+			if (node.inactive) {
+				deactivates.push(`deactivate ${words.join(' ')}`);
+			}
+
+			if (node.list || mixedListValues(node)) {
+				// Each list value is its own set command, with its own quotes
+				const values = mixedListValues(node) ?? (node.value ? node.value.split(' ') : []);
+				values.forEach((value) => sets.push(`set ${[...words, value].join(' ')}`));
+				return;
+			}
+
+			if (!node.children.length) {
+				sets.push(`set ${words.join(' ')}`);
+				return;
+			}
+		}
+
+		node.children.forEach((child) => visit(child, words));
+	};
+
+	visit(top, hierarchy);
+
+	return [...sets, ...deactivates];
+}
+
+/**
+ * Convert AST to Junos set commands
+ * @param {Object} ast - The AST to convert
+ * @return {string} - One set command per line, followed by any deactivate commands
+ */
+export function astToSetConfig(ast: JuniperNode): string {
+	return nodeToSetCommands(ast).join('\n');
+}
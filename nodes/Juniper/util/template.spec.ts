@@ -0,0 +1,87 @@
+import { diffAst, parseJuniperConfig } from './juniper';
+import { renderJinja2 } from './template';
+
+const template = `interfaces {
+    {% for interface in interfaces %}
+    {{ interface.name }} {
+        description "{{ interface.description | default('unused') | upper }}";
+        {% if interface.vlans is defined and interface.vlans %}
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ {{ interface.vlans | join(' ') }} ];
+                }
+            }
+        }
+        {% elif interface.disable %}
+        disable;
+        {% endif %}
+    }
+    {% endfor %}
+}`;
+
+describe('template', () => {
+	describe('renderJinja2', () => {
+		it('renders loops, conditions and filters', () => {
+			const rendered = renderJinja2(template, {
+				interfaces: [
+					{ name: 'ge-0/0/0', description: 'printer', vlans: ['v10', 'v20'] },
+					{ name: 'ge-0/0/1', disable: true },
+				],
+			});
+
+			const expected = parseJuniperConfig(`interfaces {
+    ge-0/0/0 {
+        description "PRINTER";
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 ];
+                }
+            }
+        }
+    }
+    ge-0/0/1 {
+        description "UNUSED";
+        disable;
+    }
+}`);
+
+			expect(diffAst(expected, parseJuniperConfig(rendered))).toEqual([]);
+		});
+
+		it('exposes loop variables and unpacks dict items', () => {
+			const rendered = renderJinja2(
+				'{% for name, id in vlans.items() %}{{ loop.index }}:{{ name }}={{ id }}{% if not loop.last %},{% endif %}{% endfor %}',
+				{ vlans: { v10: 10, v20: 20 } },
+			);
+
+			expect(rendered).toBe('1:v10=10,2:v20=20');
+		});
+
+		it('applies whitespace control', () => {
+			const source = 'a\n  {%- if true -%}\n  b\n{%- endif %}\nc';
+
+			expect(renderJinja2(source, {})).toBe('abc');
+			expect(renderJinja2(source, {}, { trimBlocks: false })).toBe('ab\nc');
+		});
+
+		it('fails on undefined variables', () => {
+			expect(() =>
+				renderJinja2('{% for x in interface.physical %}{% endfor %}', { interface: {} }),
+			).toThrow('"interface.physical" is undefined on line 1');
+		});
+
+		it('does not look variables up on the prototype', () => {
+			expect(() => renderJinja2('{{ constructor }}', {})).toThrow('"constructor" is undefined');
+			expect(() => renderJinja2('{{ x.toString }}', { x: {} })).toThrow(
+				'"x.toString" is undefined',
+			);
+			expect(renderJinja2("{{ 'constructor' in x }}", { x: {} })).toBe('False');
+		});
+
+		it('renders undefined variables as empty strings when not strict', () => {
+			expect(renderJinja2('[{{ missing }}]', {}, { strictUndefined: false })).toBe('[]');
+		});
+	});
+});
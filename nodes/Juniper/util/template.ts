@@ -0,0 +1,733 @@
+/**
+ * Jinja2 Template Renderer
+ *
+ * Renders the subset of Jinja2 the template generator emits, so generated templates can be
+ * checked without Ansible: `{{ }}` expressions with filters, `{% for %}` (with `loop` and
+ * tuple unpacking), `{% if %}`/`{% elif %}`/`{% else %}`, `{# #}` comments and `-` whitespace
+ * control. Undefined variables are an error, as they are in Ansible.
+ */
+
+export interface RenderOptions {
+	// Remove the first newline after a block tag, Ansible's default
+	trimBlocks?: boolean;
+	// Strip whitespace before a block tag at the start of a line
+	lstripBlocks?: boolean;
+	// Fail on undefined variables instead of rendering them as empty strings
+	strictUndefined?: boolean;
+}
+
+type Context = Record<string, unknown>;
+
+/**
+ * Whether a variable is set on an object itself, so prototype members such as `constructor`
+ * stay undefined
+ */
+const hasOwn = (object: object, key: string | number) =>
+	Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Marker for a variable that does not exist, remembering how it was looked up
+ */
+class Undefined {
+	constructor(readonly name: string) {}
+}
+
+interface Segment {
+	type: 'text' | 'output' | 'block';
+	content: string;
+	line: number;
+}
+
+type TemplateNode =
+	| { type: 'text'; text: string }
+	| { type: 'output'; expression: Expression; line: number }
+	| {
+			type: 'for';
+			targets: string[];
+			iterable: Expression;
+			body: TemplateNode[];
+			otherwise: TemplateNode[];
+			line: number;
+	  }
+	| {
+			type: 'if';
+			branches: Array<{ test: Expression; body: TemplateNode[] }>;
+			otherwise: TemplateNode[];
+	  };
+
+type Expression =
+	| { type: 'literal'; value: unknown }
+	| { type: 'name'; name: string }
+	| { type: 'attribute'; object: Expression; key: Expression }
+	| { type: 'call'; callee: Expression; args: Expression[] }
+	| { type: 'list'; items: Expression[] }
+	| { type: 'unary'; operator: string; operand: Expression }
+	| { type: 'binary'; operator: string; left: Expression; right: Expression }
+	| { type: 'filter'; name: string; input: Expression; args: Expression[] }
+	| { type: 'test'; name: string; input: Expression; negated: boolean };
+
+/**
+ * Split a template into text, `{{ }}` and `{% %}` segments, applying whitespace control
+ */
+function splitSegments(template: string, options: RenderOptions): Segment[] {
+	const segments: Segment[] = [];
+	const pattern = /{{(-?)([\s\S]*?)(-?)}}|{%(-?)([\s\S]*?)(-?)%}|{#([\s\S]*?)#}/g;
+	let lastIndex = 0;
+	let trimNext = false;
+	let match: RegExpExecArray | null;
+
+	const lineAt = (index: number) => template.slice(0, index).split('\n').length;
+
+	while ((match = pattern.exec(template)) !== null) {
+		let text = template.slice(lastIndex, match.index);
+		const isBlock = match[5] !== undefined || match[7] !== undefined;
+
+		if (trimNext) text = text.replace(/^\s+/, '');
+		if (match[1] === '-' || match[4] === '-') {
+			text = text.replace(/\s+$/, '');
+		} else if (isBlock && options.lstripBlocks) {
+			text = text.replace(/(^|\n)[ \t]+$/, '$1');
+		}
+		segments.push({ type: 'text', content: text, line: lineAt(lastIndex) });
+
+		if (match[2] !== undefined) {
+			segments.push({ type: 'output', content: match[2].trim(), line: lineAt(match.index) });
+			trimNext = match[3] === '-';
+		} else if (match[5] !== undefined) {
+			segments.push({ type: 'block', content: match[5].trim(), line: lineAt(match.index) });
+			trimNext = match[6] === '-';
+		} else {
+			trimNext = false;
+		}
+
+		lastIndex = pattern.lastIndex;
+		if (isBlock && options.trimBlocks && !trimNext && template[lastIndex] === '\n') {
+			lastIndex++;
+		}
+	}
+
+	let text = template.slice(lastIndex);
+	if (trimNext) text = text.replace(/^\s+/, '');
+	segments.push({ type: 'text', content: text, line: lineAt(lastIndex) });
+
+	return segments;
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenizeExpression(source: string, line: number): string[] {
+	const tokens: string[] = [];
+	const pattern =
+		/\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|==|!=|<=|>=|[-+*/%~<>|.,()[\]])/y;
+	let index = 0;
+
+	while (index < source.length) {
+		if (/^\s*$/.test(source.slice(index))) break;
+		pattern.lastIndex = index;
+		const match = pattern.exec(source);
+		if (!match) {
+			throw new Error(`Unexpected "${source.slice(index).trim()}" on line ${line}`);
+		}
+		tokens.push(match[1]);
+		index = pattern.lastIndex;
+	}
+
+	return tokens;
+}
+
+/**
+ * Recursive descent parser for template expressions
+ */
+class ExpressionParser {
+	private index = 0;
+
+	constructor(
+		private readonly tokens: string[],
+		private readonly line: number,
+	) {}
+
+	parse(): Expression {
+		const expression = this.parseConditional();
+		if (this.index < this.tokens.length) {
+			throw new Error(`Unexpected "${this.tokens[this.index]}" on line ${this.line}`);
+		}
+		return expression;
+	}
+
+	private peek(offset = 0): string | undefined {
+		return this.tokens[this.index + offset];
+	}
+
+	private next(): string {
+		const token = this.tokens[this.index++];
+		if (token === undefined) throw new Error(`Unexpected end of expression on line ${this.line}`);
+		return token;
+	}
+
+	private expect(token: string) {
+		const found = this.next();
+		if (found !== token) {
+			throw new Error(`Expected "${token}" but found "${found}" on line ${this.line}`);
+		}
+	}
+
+	private parseConditional(): Expression {
+		const body = this.parseOr();
+		if (this.peek() !== 'if') return body;
+
+		// Inline "a if test else b"
+		this.next();
+		const test = this.parseOr();
+		let otherwise: Expression = { type: 'literal', value: new Undefined('else') };
+		if (this.peek() === 'else') {
+			this.next();
+			otherwise = this.parseConditional();
+		}
+		return {
+			type: 'binary',
+			operator: '?',
+			left: test,
+			right: { type: 'list', items: [body, otherwise] },
+		};
+	}
+
+	private parseOr(): Expression {
+		let left = this.parseAnd();
+		while (this.peek() === 'or') {
+			this.next();
+			left = { type: 'binary', operator: 'or', left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): Expression {
+		let left = this.parseNot();
+		while (this.peek() === 'and') {
+			this.next();
+			left = { type: 'binary', operator: 'and', left, right: this.parseNot() };
+		}
+		return left;
+	}
+
+	private parseNot(): Expression {
+		if (this.peek() === 'not') {
+			this.next();
+			return { type: 'unary', operator: 'not', operand: this.parseNot() };
+		}
+		return this.parseComparison();
+	}
+
+	private parseComparison(): Expression {
+		let left = this.parseAdditive();
+
+		for (;;) {
+			const token = this.peek();
+			if (token && ['==', '!=', '<', '>', '<=', '>='].includes(token)) {
+				this.next();
+				left = { type: 'binary', operator: token, left, right: this.parseAdditive() };
+			} else if (token === 'in' || (token === 'not' && this.peek(1) === 'in')) {
+				const negated = this.next() === 'not';
+				if (negated) this.next();
+				const test: Expression = {
+					type: 'binary',
+					operator: 'in',
+					left,
+					right: this.parseAdditive(),
+				};
+				left = negated ? { type: 'unary', operator: 'not', operand: test } : test;
+			} else if (token === 'is') {
+				this.next();
+				const negated = this.peek() === 'not';
+				if (negated) this.next();
+				left = { type: 'test', name: this.next(), input: left, negated };
+			} else {
+				return left;
+			}
+		}
+	}
+
+	private parseAdditive(): Expression {
+		let left = this.parseMultiplicative();
+		while (['+', '-', '~'].includes(this.peek() ?? '')) {
+			const operator = this.next();
+			left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+		}
+		return left;
+	}
+
+	private parseMultiplicative(): Expression {
+		let left = this.parseUnary();
+		while (['*', '/', '%'].includes(this.peek() ?? '')) {
+			const operator = this.next();
+			left = { type: 'binary', operator, left, right: this.parseUnary() };
+		}
+		return left;
+	}
+
+	private parseUnary(): Expression {
+		if (this.peek() === '-') {
+			this.next();
+			return { type: 'unary', operator: '-', operand: this.parseUnary() };
+		}
+		return this.parseFilters();
+	}
+
+	private parseFilters(): Expression {
+		let input = this.parsePostfix();
+		while (this.peek() === '|') {
+			this.next();
+			const name = this.next();
+			const args = this.peek() === '(' ? this.parseArguments() : [];
+			input = { type: 'filter', name, input, args };
+		}
+		return input;
+	}
+
+	private parseArguments(): Expression[] {
+		const args: Expression[] = [];
+		this.expect('(');
+		while (this.peek() !== ')') {
+			args.push(this.parseConditional());
+			if (this.peek() === ',') this.next();
+			else break;
+		}
+		this.expect(')');
+		return args;
+	}
+
+	private parsePostfix(): Expression {
+		let expression = this.parsePrimary();
+
+		for (;;) {
+			if (this.peek() === '.') {
+				this.next();
+				expression = {
+					type: 'attribute',
+					object: expression,
+					key: { type: 'literal', value: this.next() },
+				};
+			} else if (this.peek() === '[') {
+				this.next();
+				const key = this.parseConditional();
+				this.expect(']');
+				expression = { type: 'attribute', object: expression, key };
+			} else if (this.peek() === '(') {
+				expression = { type: 'call', callee: expression, args: this.parseArguments() };
+			} else {
+				return expression;
+			}
+		}
+	}
+
+	private parsePrimary(): Expression {
+		const token = this.next();
+
+		if (/^["']/.test(token)) {
+			return { type: 'literal', value: token.slice(1, -1).replace(/\\(.)/g, '$1') };
+		}
+		if (/^\d/.test(token)) return { type: 'literal', value: Number(token) };
+		if (token === 'true' || token === 'True') return { type: 'literal', value: true };
+		if (token === 'false' || token === 'False') return { type: 'literal', value: false };
+		if (token === 'none' || token === 'None') return { type: 'literal', value: null };
+
+		if (token === '(') {
+			const expression = this.parseConditional();
+			this.expect(')');
+			return expression;
+		}
+
+		if (token === '[') {
+			const items: Expression[] = [];
+			while (this.peek() !== ']') {
+				items.push(this.parseConditional());
+				if (this.peek() === ',') this.next();
+				else break;
+			}
+			this.expect(']');
+			return { type: 'list', items };
+		}
+
+		if (/^[A-Za-z_]/.test(token)) return { type: 'name', name: token };
+
+		throw new Error(`Unexpected "${token}" on line ${this.line}`);
+	}
+}
+
+/**
+ * Parse the segment list into a tree of template nodes
+ */
+function parseTemplate(segments: Segment[]): TemplateNode[] {
+	let index = 0;
+
+	const parseExpression = (source: string, line: number) =>
+		new ExpressionParser(tokenizeExpression(source, line), line).parse();
+
+	// Parse nodes until one of the given block tags, which is returned unconsumed
+	const parseBody = (endTags: string[]): { body: TemplateNode[]; tag: string | null } => {
+		const body: TemplateNode[] = [];
+
+		while (index < segments.length) {
+			const segment = segments[index];
+
+			if (segment.type === 'text') {
+				if (segment.content) body.push({ type: 'text', text: segment.content });
+				index++;
+				continue;
+			}
+
+			if (segment.type === 'output') {
+				body.push({
+					type: 'output',
+					expression: parseExpression(segment.content, segment.line),
+					line: segment.line,
+				});
+				index++;
+				continue;
+			}
+
+			const [tag] = segment.content.split(/\s+/);
+			if (endTags.includes(tag)) return { body, tag };
+			index++;
+
+			if (tag === 'for') {
+				const match = segment.content.match(/^for\s+(.+?)\s+in\s+(.+)$/);
+				if (!match) throw new Error(`Invalid for loop on line ${segment.line}`);
+				const inner = parseBody(['else', 'endfor']);
+				let otherwise: TemplateNode[] = [];
+				if (inner.tag === 'else') {
+					index++;
+					otherwise = parseBody(['endfor']).body;
+				}
+				expectTag('endfor', segment.line);
+				body.push({
+					type: 'for',
+					targets: match[1].split(',').map((target) => target.trim()),
+					iterable: parseExpression(match[2], segment.line),
+					body: inner.body,
+					otherwise,
+					line: segment.line,
+				});
+				continue;
+			}
+
+			if (tag === 'if') {
+				const branches: Array<{ test: Expression; body: TemplateNode[] }> = [];
+				let otherwise: TemplateNode[] = [];
+				let test = parseExpression(segment.content.slice(2), segment.line);
+
+				for (;;) {
+					const inner = parseBody(['elif', 'else', 'endif']);
+					branches.push({ test, body: inner.body });
+					if (inner.tag === 'elif') {
+						test = parseExpression(segments[index].content.slice(4), segments[index].line);
+						index++;
+						continue;
+					}
+					if (inner.tag === 'else') {
+						index++;
+						otherwise = parseBody(['endif']).body;
+					}
+					break;
+				}
+				expectTag('endif', segment.line);
+				body.push({ type: 'if', branches, otherwise });
+				continue;
+			}
+
+			throw new Error(`Unsupported tag "${tag}" on line ${segment.line}`);
+		}
+
+		return { body, tag: null };
+	};
+
+	const expectTag = (tag: string, line: number) => {
+		const segment = segments[index];
+		if (!segment || segment.type !== 'block' || segment.content.split(/\s+/)[0] !== tag) {
+			throw new Error(`Missing {% ${tag} %} for the block on line ${line}`);
+		}
+		index++;
+	};
+
+	const { body, tag } = parseBody([]);
+	if (tag) throw new Error(`Unexpected {% ${tag} %}`);
+	return body;
+}
+
+/**
+ * Whether a value counts as true in a template condition
+ */
+function isTruthy(value: unknown): boolean {
+	if (value instanceof Undefined || value === null || value === undefined) return false;
+	if (Array.isArray(value)) return value.length > 0;
+	if (typeof value === 'object') return Object.keys(value as object).length > 0;
+	return Boolean(value);
+}
+
+/**
+ * Print a value the way Jinja2 would
+ */
+function stringify(value: unknown): string {
+	if (value === null) return 'None';
+	if (value === true) return 'True';
+	if (value === false) return 'False';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+const FILTERS: Record<string, (input: unknown, ...args: unknown[]) => unknown> = {
+	default: (input, fallback = '', boolean = false) =>
+		input instanceof Undefined || (boolean && !isTruthy(input)) ? fallback : input,
+	upper: (input) => stringify(input).toUpperCase(),
+	lower: (input) => stringify(input).toLowerCase(),
+	trim: (input) => stringify(input).trim(),
+	string: (input) => stringify(input),
+	int: (input) => parseInt(stringify(input), 10) || 0,
+	replace: (input, search, replacement) =>
+		stringify(input).split(String(search)).join(String(replacement)),
+	join: (input, separator = '') => (input as unknown[]).map(stringify).join(String(separator)),
+	length: (input) =>
+		typeof input === 'object' && input !== null
+			? Object.keys(input as object).length
+			: stringify(input).length,
+	first: (input) => (input as unknown[])[0],
+	last: (input) => (input as unknown[])[(input as unknown[]).length - 1],
+	list: (input) =>
+		Array.isArray(input)
+			? input
+			: typeof input === 'string'
+				? [...input]
+				: Object.keys(input as object),
+	sort: (input) => [...(input as unknown[])].sort(),
+	unique: (input) => [...new Set(input as unknown[])],
+};
+FILTERS.d = FILTERS.default;
+FILTERS.count = FILTERS.length;
+
+const TESTS: Record<string, (input: unknown) => boolean> = {
+	defined: (input) => !(input instanceof Undefined),
+	undefined: (input) => input instanceof Undefined,
+	none: (input) => input === null,
+	string: (input) => typeof input === 'string',
+	number: (input) => typeof input === 'number',
+	mapping: (input) => typeof input === 'object' && input !== null && !Array.isArray(input),
+	iterable: (input) => typeof input === 'object' && input !== null,
+};
+
+/**
+ * Evaluates expressions and renders nodes against a stack of variable scopes
+ */
+class Renderer {
+	constructor(
+		private readonly scopes: Context[],
+		private readonly options: RenderOptions,
+	) {}
+
+	render(nodes: TemplateNode[]): string {
+		return nodes.map((node) => this.renderNode(node)).join('');
+	}
+
+	private renderNode(node: TemplateNode): string {
+		switch (node.type) {
+			case 'text':
+				return node.text;
+			case 'output': {
+				const value = this.evaluate(node.expression);
+				if (value instanceof Undefined) {
+					if (this.options.strictUndefined) {
+						throw new Error(`"${value.name}" is undefined on line ${node.line}`);
+					}
+					return '';
+				}
+				return stringify(value);
+			}
+			case 'if': {
+				const branch = node.branches.find(({ test }) => isTruthy(this.evaluate(test)));
+				return this.render(branch ? branch.body : node.otherwise);
+			}
+			case 'for': {
+				const iterable = this.evaluate(node.iterable);
+				if (iterable instanceof Undefined) {
+					if (this.options.strictUndefined) {
+						throw new Error(`"${iterable.name}" is undefined on line ${node.line}`);
+					}
+					return this.render(node.otherwise);
+				}
+
+				const items = Array.isArray(iterable)
+					? iterable
+					: typeof iterable === 'object' && iterable !== null
+						? Object.keys(iterable)
+						: typeof iterable === 'string'
+							? [...iterable]
+							: [];
+				if (!items.length) return this.render(node.otherwise);
+
+				return items
+					.map((item, index) => {
+						const scope: Context = {
+							loop: {
+								index: index + 1,
+								index0: index,
+								first: index === 0,
+								last: index === items.length - 1,
+								length: items.length,
+							},
+						};
+						if (node.targets.length === 1) {
+							scope[node.targets[0]] = item;
+						} else {
+							node.targets.forEach((target, position) => {
+								scope[target] = (item as unknown[])[position];
+							});
+						}
+						return new Renderer([scope, ...this.scopes], this.options).render(node.body);
+					})
+					.join('');
+			}
+		}
+	}
+
+	private lookup(name: string): unknown {
+		const scope = this.scopes.find((candidate) => hasOwn(candidate, name));
+		return scope ? scope[name] : new Undefined(name);
+	}
+
+	evaluate(expression: Expression): unknown {
+		switch (expression.type) {
+			case 'literal':
+				return expression.value;
+			case 'name':
+				return this.lookup(expression.name);
+			case 'list':
+				return expression.items.map((item) => this.evaluate(item));
+			case 'attribute': {
+				const object = this.evaluate(expression.object);
+				const key = this.evaluate(expression.key) as string | number;
+				const name = `${object instanceof Undefined ? object.name : describeExpression(expression.object)}.${key}`;
+				if (object instanceof Undefined) {
+					if (this.options.strictUndefined) throw new Error(`"${object.name}" is undefined`);
+					return new Undefined(name);
+				}
+				if (object === null || typeof object !== 'object' || !hasOwn(object, key)) {
+					return new Undefined(name);
+				}
+				return (object as Record<string, unknown>)[key];
+			}
+			case 'call': {
+				// Only the dict methods templates use to iterate are supported
+				if (expression.callee.type !== 'attribute')
+					throw new Error('Only method calls are supported');
+				const object = this.evaluate(expression.callee.object) as Record<string, unknown>;
+				const method = this.evaluate(expression.callee.key);
+				if (method === 'items') return Object.entries(object);
+				if (method === 'keys') return Object.keys(object);
+				if (method === 'values') return Object.values(object);
+				throw new Error(`Unsupported method "${method}"`);
+			}
+			case 'unary': {
+				const operand = this.evaluate(expression.operand);
+				return expression.operator === 'not' ? !isTruthy(operand) : -(operand as number);
+			}
+			case 'binary':
+				return this.evaluateBinary(expression.operator, expression.left, expression.right);
+			case 'filter': {
+				const filter = FILTERS[expression.name];
+				if (!filter) throw new Error(`Unsupported filter "${expression.name}"`);
+				const input = this.evaluate(expression.input);
+				if (
+					input instanceof Undefined &&
+					expression.name !== 'default' &&
+					expression.name !== 'd'
+				) {
+					if (this.options.strictUndefined) throw new Error(`"${input.name}" is undefined`);
+				}
+				return filter(input, ...expression.args.map((arg) => this.evaluate(arg)));
+			}
+			case 'test': {
+				const test = TESTS[expression.name];
+				if (!test) throw new Error(`Unsupported test "${expression.name}"`);
+				const result = test(this.evaluate(expression.input));
+				return expression.negated ? !result : result;
+			}
+		}
+	}
+
+	private evaluateBinary(
+		operator: string,
+		leftExpression: Expression,
+		rightExpression: Expression,
+	) {
+		const left = this.evaluate(leftExpression);
+
+		// Short-circuit operators only evaluate what they need
+		if (operator === 'and') return isTruthy(left) ? this.evaluate(rightExpression) : left;
+		if (operator === 'or') return isTruthy(left) ? left : this.evaluate(rightExpression);
+		if (operator === '?') {
+			const [body, otherwise] = (rightExpression as { items: Expression[] }).items;
+			return this.evaluate(isTruthy(left) ? body : otherwise);
+		}
+
+		const right = this.evaluate(rightExpression);
+		switch (operator) {
+			case '==':
+				return left === right;
+			case '!=':
+				return left !== right;
+			case '<':
+				return (left as number) < (right as number);
+			case '>':
+				return (left as number) > (right as number);
+			case '<=':
+				return (left as number) <= (right as number);
+			case '>=':
+				return (left as number) >= (right as number);
+			case 'in':
+				if (typeof right === 'string') return right.includes(String(left));
+				if (Array.isArray(right)) return right.includes(left);
+				return typeof right === 'object' && right !== null && hasOwn(right, String(left));
+			case '~':
+				return stringify(left) + stringify(right);
+			case '+':
+				return (left as number) + (right as number);
+			case '-':
+				return (left as number) - (right as number);
+			case '*':
+				return (left as number) * (right as number);
+			case '/':
+				return (left as number) / (right as number);
+			case '%':
+				return (left as number) % (right as number);
+			default:
+				throw new Error(`Unsupported operator "${operator}"`);
+		}
+	}
+}
+
+/**
+ * Name of a variable expression, for error messages
+ */
+function describeExpression(expression: Expression): string {
+	if (expression.type === 'name') return expression.name;
+	if (expression.type === 'attribute') {
+		return `${describeExpression(expression.object)}.${(expression.key as { value?: unknown }).value ?? '[]'}`;
+	}
+	return expression.type;
+}
+
+/**
+ * Render a Jinja2 template
+ * @param {string} template - The template source
+ * @param {Object} variables - The variables available to the template
+ * @param {Object} options - Whitespace handling and undefined variable behavior
+ * @return {string} - The rendered text
+ */
+export function renderJinja2(
+	template: string,
+	variables: Record<string, unknown>,
+	options: RenderOptions = {},
+): string {
+	const resolved = { trimBlocks: true, lstripBlocks: false, strictUndefined: true, ...options };
+	const nodes = parseTemplate(splitSegments(template, resolved));
+	return new Renderer([variables], resolved).render(nodes);
+}
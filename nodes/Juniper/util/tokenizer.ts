@@ -0,0 +1,115 @@
+/**
+ * Junos Configuration Tokenizer
+ *
+ * Splits a curly-brace configuration into tokens while keeping track of where each
+ * token came from, so the parser does not have to work line by line.
+ */
+
+export type TokenType = 'word' | 'string' | 'annotation' | 'comment' | '{' | '}' | ';' | '[' | ']';
+
+export interface SourcePosition {
+	line: number;
+	column: number;
+}
+
+export interface Token extends SourcePosition {
+	type: TokenType;
+	text: string;
+	end: SourcePosition;
+}
+
+export interface TokenizerError extends SourcePosition {
+	message: string;
+}
+
+const PUNCTUATION = new Set(['{', '}', ';', '[', ']']);
+
+/**
+ * Tokenize a Junos configuration string
+ * @param {string} config - The configuration string to tokenize
+ * @return {Object} - The tokens, plus any errors for unterminated strings or comments
+ */
+export function tokenize(config: string): { tokens: Token[]; errors: TokenizerError[] } {
+	const tokens: Token[] = [];
+	const errors: TokenizerError[] = [];
+	let index = 0;
+	let line = 1;
+	let column = 1;
+
+	// Move forward, keeping line and column in sync
+	const advance = (count: number) => {
+		for (let n = 0; n < count; n++) {
+			if (config[index] === '\n') {
+				line++;
+				column = 1;
+			} else {
+				column++;
+			}
+			index++;
+		}
+	};
+
+	// Add a token spanning the next `length` characters
+	const push = (type: TokenType, text: string, length: number) => {
+		const start = { line, column };
+		advance(length);
+		tokens.push({ type, text, ...start, end: { line, column } });
+	};
+
+	while (index < config.length) {
+		const char = config[index];
+		const start = { line, column };
+
+		if (/\s/.test(char)) {
+			advance(1);
+			continue;
+		}
+
+		// Line comment, runs to the end of the line and keeps its hashes
+		if (char === '#') {
+			const end = config.indexOf('\n', index);
+			const length = (end === -1 ? config.length : end) - index;
+			push('comment', config.slice(index, index + length).trimEnd(), length);
+			continue;
+		}
+
+		// Block comment, kept as an annotation of the next statement
+		if (char === '/' && config[index + 1] === '*') {
+			const end = config.indexOf('*/', index + 2);
+			if (end === -1) {
+				errors.push({ message: 'Unterminated comment', ...start });
+				push('annotation', config.slice(index + 2).trim(), config.length - index);
+			} else {
+				push('annotation', config.slice(index + 2, end).trim(), end + 2 - index);
+			}
+			continue;
+		}
+
+		// Quoted string, the text keeps any escape sequences as written
+		if (char === '"') {
+			let end = index + 1;
+			while (end < config.length && config[end] !== '"') {
+				end += config[end] === '\\' ? 2 : 1;
+			}
+			if (end >= config.length) {
+				errors.push({ message: 'Unterminated string', ...start });
+			}
+			push('string', config.slice(index + 1, end), Math.min(end + 1, config.length) - index);
+			continue;
+		}
+
+		if (PUNCTUATION.has(char)) {
+			push(char as TokenType, char, 1);
+			continue;
+		}
+
+		// Bare word, ends at whitespace, punctuation or a quote
+		let end = index;
+		while (end < config.length && !/[\s{};[\]"]/.test(config[end])) {
+			end++;
+		}
+		push('word', config.slice(index, end), end - index);
+	}
+
+	return { tokens, errors };
+}
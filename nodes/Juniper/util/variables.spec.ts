@@ -0,0 +1,132 @@
+import { diffAst, parseJuniperConfig } from './juniper';
+import { extractVariables } from './variables';
+
+const oldConfig = `system {
+    host-name sw-01;
+    location "Rack 1";
+    ntp {
+        server 10.0.0.1;
+    }
+}
+interfaces {
+    ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 ];
+                }
+            }
+        }
+    }
+    lo0 {
+        unit 0 {
+            family inet {
+                address 192.0.2.1/32;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        local-as 65001;
+    }
+}`;
+
+const newConfig = `system {
+    host-name sw-02;
+    location "Rack 2";
+    ntp {
+        server 10.0.0.2;
+    }
+}
+interfaces {
+    ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v30 ];
+                }
+            }
+        }
+    }
+    lo0 {
+        unit 0 {
+            family inet {
+                address 192.0.2.2/32;
+            }
+        }
+    }
+}
+protocols {
+    bgp {
+        local-as 65002;
+    }
+}
+vlans {
+    v30 {
+        vlan-id 30;
+    }
+}`;
+
+describe('variables', () => {
+	describe('extractVariables', () => {
+		const diff = diffAst(parseJuniperConfig(oldConfig), parseJuniperConfig(newConfig), {
+			matchBy: 'identity',
+		});
+
+		it('extracts the values of every hierarchy that differs', () => {
+			const { variables } = extractVariables(diff);
+
+			expect(variables).toEqual({
+				system: {
+					host_name: 'sw-01',
+					location: 'Rack 1',
+					ntp: { server: '10.0.0.1' },
+				},
+				interfaces: {
+					ge_0_0_1: {
+						unit: { _0: { family: { ethernet_switching: { vlan: { members: ['v10', 'v20'] } } } } },
+					},
+					lo0: { unit: { _0: { family: { inet: { address: '192.0.2.1/32' } } } } },
+				},
+				protocols: { bgp: { local_as: 65001 } },
+				vlans: null,
+			});
+		});
+
+		it('takes values that only exist on the new side', () => {
+			const { variables } = extractVariables(diff, { side: 'new' });
+
+			expect(variables).toMatchObject({
+				system: { host_name: 'sw-02' },
+				vlans: { v30: { vlan_id: 30 } },
+			});
+		});
+
+		it('describes the variable types with a JSON Schema', () => {
+			const { schema } = extractVariables(diff);
+
+			expect(schema.required).toEqual(['system', 'interfaces', 'protocols']);
+			expect(schema.properties?.system.properties).toEqual({
+				host_name: { type: 'string' },
+				location: { type: 'string' },
+				ntp: {
+					type: 'object',
+					properties: { server: { type: 'string', format: 'ipv4' } },
+					required: ['server'],
+				},
+			});
+			expect(schema.properties?.protocols.properties?.bgp.properties?.local_as).toEqual({
+				type: 'integer',
+			});
+			expect(
+				schema.properties?.interfaces.properties?.lo0.properties?.unit.properties?._0.properties
+					?.family.properties?.inet.properties?.address,
+			).toMatchObject({ type: 'string', format: 'ipv4-prefix' });
+			expect(schema.properties?.vlans).toMatchObject({
+				type: ['object', 'null'],
+				properties: { v30: { properties: { vlan_id: { type: 'integer' } } } },
+			});
+		});
+	});
+});
@@ -0,0 +1,260 @@
+import _ from 'lodash';
+import { isIP } from 'net';
+import { JuniperDiff, JuniperNode } from './juniper';
+import { toIdentifier } from './jinja2';
+
+/**
+ * Variable Extraction
+ *
+ * Turns the differences between two devices into a nested variable document, keyed by the
+ * hierarchy the values live in (e.g. `system.host_name`, `interfaces.ge_0_0_1.unit._0.description`),
+ * along with a JSON Schema describing what was found.
+ */
+
+export type VariableValue = string | number | boolean | null | VariableValue[] | VariableDocument;
+
+export interface VariableDocument {
+	[key: string]: VariableValue;
+}
+
+export interface JsonSchema {
+	type: string | string[];
+	$schema?: string;
+	format?: string;
+	pattern?: string;
+	items?: JsonSchema;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+}
+
+export interface ExtractVariablesOptions {
+	// Which side of the diff to take the values from, the other side's values are ignored
+	side?: 'old' | 'new';
+}
+
+export interface ExtractedVariables {
+	variables: VariableDocument;
+	schema: JsonSchema;
+}
+
+const IP_PREFIX = /^([0-9a-fA-F:.]+)\/(\d{1,3})$/;
+const INTEGER = /^(0|-?[1-9]\d*)$/;
+
+/**
+ * Keys of a hierarchy label
+ * @param {string} label - The label of a statement, as in identity-mode diff paths
+ * @return {string[]} - The variable keys, e.g. ["unit", "_0"] for "unit 0"
+ */
+export function labelKeys(label: string): string[] {
+	const space = label.indexOf(' ');
+	if (space === -1) return [toIdentifier(label)];
+	return [toIdentifier(label.slice(0, space)), toIdentifier(label.slice(space + 1))];
+}
+
+/**
+ * Typed value of a statement
+ * @param {Object} node - The statement, or its value and whether it is a [ ] list
+ * @return {*} - The value, lists become arrays and whole numbers become integers
+ */
+export function toVariableValue({
+	list,
+	value,
+}: Pick<JuniperNode, 'list' | 'value'>): VariableValue {
+	if (list) {
+		return (value ?? '').split(/\s+/).filter(Boolean).map(toScalar);
+	}
+	return toScalar(value ?? '');
+}
+
+function toScalar(value: string): VariableValue {
+	return INTEGER.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : value;
+}
+
+/**
+ * Variables of a whole added or removed subtree
+ * @param {Object} node - The statement
+ * @return {*} - true for flags, the value for directives and an object for blocks
+ */
+function nodeVariables(node: JuniperNode): VariableValue {
+	if (node.type === 'flag') return true;
+	if (node.type === 'directive') return toVariableValue(node);
+
+	const document: VariableDocument = {};
+	node.children.forEach((child) => {
+		// Named statements are keyed by their value, so "address" repeats but "unit 0" does not
+		setVariable(document, nodeKeys(child), nodeVariables(child));
+	});
+	return document;
+}
+
+/**
+ * Keys of a statement within its parent
+ */
+function nodeKeys(node: JuniperNode): string[] {
+	if (node.type === 'named-block' || node.type === 'pattern-block') {
+		return [toIdentifier(node.name ?? ''), toIdentifier(node.value ?? '')];
+	}
+	return [toIdentifier(node.name ?? node.type)];
+}
+
+/**
+ * Set a variable, turning repeated statements into lists and never overwriting a value with null
+ */
+function setVariable(document: VariableDocument, keys: string[], value: VariableValue) {
+	const current = _.get(document, keys);
+
+	if (current === undefined || current === null) {
+		_.set(document, keys, value);
+	} else if (value !== null) {
+		_.set(document, keys, [...(Array.isArray(current) ? current : [current]), value]);
+	}
+}
+
+/**
+ * Describe a single scalar value
+ */
+function scalarSchema(value: VariableValue): JsonSchema {
+	if (typeof value === 'boolean') return { type: 'boolean' };
+	if (typeof value === 'number') return { type: 'integer' };
+	if (typeof value !== 'string') return { type: 'string' };
+
+	const version = isIP(value);
+	if (version) return { type: 'string', format: `ipv${version}` };
+
+	const prefix = IP_PREFIX.exec(value);
+	if (prefix && isIP(prefix[1])) {
+		return {
+			type: 'string',
+			format: `ipv${isIP(prefix[1])}-prefix`,
+			pattern: '^[0-9a-fA-F:.]+/\\d{1,3}$',
+		};
+	}
+
+	return { type: 'string' };
+}
+
+/**
+ * Infer the JSON Schema of a variable document
+ * @param {*} value - The document or any value inside it
+ * @return {Object} - The schema, variables that are null may be missing from a device
+ */
+export function inferSchema(value: VariableValue): JsonSchema {
+	if (value === null) return { type: 'null' };
+
+	if (Array.isArray(value)) {
+		const items = value.map(inferSchema);
+		return {
+			type: 'array',
+			items:
+				items.every((item) => _.isEqual(item, items[0])) && items.length
+					? items[0]
+					: { type: 'string' },
+		};
+	}
+
+	if (typeof value === 'object') {
+		const properties = _.mapValues(value, inferSchema);
+		const required = Object.keys(value).filter((key) => value[key] !== null);
+		return { type: 'object', properties, required };
+	}
+
+	return scalarSchema(value);
+}
+
+/**
+ * Combine the schemas of the same variable on two devices, so that it describes both
+ */
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+	if (_.isEqual(a, b)) return a;
+
+	if (a.type === 'object' && b.type === 'object') {
+		const keys = _.union(Object.keys(a.properties ?? {}), Object.keys(b.properties ?? {}));
+		return {
+			type: 'object',
+			properties: Object.fromEntries(
+				keys.map((key) => {
+					const [left, right] = [a.properties?.[key], b.properties?.[key]];
+					return [key, left && right ? mergeSchemas(left, right) : (left ?? right)!];
+				}),
+			),
+			required: _.intersection(a.required ?? [], b.required ?? []),
+		};
+	}
+
+	// A variable missing on one device keeps the type it has on the other
+	const [known, other] = a.type === 'null' ? [b, a] : [a, b];
+	if (other.type === 'null') {
+		return { ...known, type: _.union([known.type].flat(), ['null']) };
+	}
+
+	// Differently shaped values, e.g. an address on one device and a name on the other
+	const types = _.union([a.type].flat(), [b.type].flat());
+	return { type: types.length === 1 ? types[0] : types };
+}
+
+/**
+ * Variable document of one side of a diff
+ */
+function sideVariables(diff: JuniperDiff[], side: 'old' | 'new'): VariableDocument {
+	const variables: VariableDocument = {};
+
+	for (const change of diff) {
+		const value = side === 'old' ? change.oldValue : change.newValue;
+
+		switch (change.type) {
+			case 'add':
+			case 'remove': {
+				// The statement's own keys come from the node, its value may contain spaces
+				const node = (change.oldValue ?? change.newValue) as JuniperNode;
+				const keys = [...change.absolutePath.slice(0, -1).flatMap(labelKeys), ...nodeKeys(node)];
+				setVariable(
+					variables,
+					keys,
+					value === undefined ? null : nodeVariables(value as JuniperNode),
+				);
+				break;
+			}
+			case 'modify':
+				if (change.property !== 'value' || !change.absolutePath.length) break;
+				setVariable(
+					variables,
+					change.absolutePath.flatMap(labelKeys),
+					value === undefined
+						? null
+						: toVariableValue({ list: change.list, value: value as string }),
+				);
+				break;
+			default:
+				break;
+		}
+	}
+
+	return variables;
+}
+
+/**
+ * Build a variable document from every hierarchy that differs between two configurations
+ *
+ * Values that only exist on the other side are kept as null, so a template always has the
+ * variable to test. The schema describes the variables of both sides. Only diffs computed
+ * with `matchBy: 'identity'` carry the labels needed.
+ * @param {Array} diff - The differences from `diffAst` with identity matching
+ * @param {Object} options - Which side to take the values from, the old one by default
+ * @return {Object} - The variables and their JSON Schema
+ */
+export function extractVariables(
+	diff: JuniperDiff[],
+	options: ExtractVariablesOptions = {},
+): ExtractedVariables {
+	const { side = 'old' } = options;
+	const variables = sideVariables(diff, side);
+	const other = sideVariables(diff, side === 'old' ? 'new' : 'old');
+
+	return {
+		variables,
+		schema: {
+			$schema: 'http://json-schema.org/draft-07/schema#',
+			...mergeSchemas(inferSchema(variables), inferSchema(other)),
+		},
+	};
+}
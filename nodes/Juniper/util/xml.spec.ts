@@ -0,0 +1,153 @@
+import { astToConfig, diffAst, parseJuniperConfig } from './juniper';
+import { astToXml, parseXmlConfig, parseXmlConfigWithDiagnostics } from './xml';
+
+const xml = `<rpc-reply xmlns:junos="http://xml.juniper.net/junos/*/junos">
+<configuration junos:commit-seconds="1700000000">
+    <system>
+        <host-name>sw-01</host-name>
+        <services>
+            <ssh/>
+        </services>
+    </system>
+    <interfaces>
+        <junos:comment>/* uplink to core */</junos:comment>
+        <interface>
+            <name>ge-0/0/0</name>
+            <description>to core &amp; edge</description>
+            <unit>
+                <name>0</name>
+                <family>
+                    <inet>
+                        <address>
+                            <name>10.0.0.1/31</name>
+                        </address>
+                    </inet>
+                </family>
+            </unit>
+        </interface>
+        <interface inactive="inactive">
+            <name>ge-0/0/1</name>
+            <unit>
+                <name>0</name>
+                <family>
+                    <ethernet-switching>
+                        <vlan>
+                            <members>v10</members>
+                            <members>v20</members>
+                        </vlan>
+                    </ethernet-switching>
+                </family>
+            </unit>
+        </interface>
+    </interfaces>
+    <vlans operation="replace">
+        <vlan>
+            <name>v10</name>
+            <vlan-id>10</vlan-id>
+        </vlan>
+    </vlans>
+</configuration>
+</rpc-reply>`;
+
+const config = `system {
+    host-name sw-01;
+    services {
+        ssh;
+    }
+}
+interfaces {
+    /* uplink to core */
+    ge-0/0/0 {
+        description "to core & edge";
+        unit 0 {
+            family inet {
+                address 10.0.0.1/31;
+            }
+        }
+    }
+    inactive: ge-0/0/1 {
+        unit 0 {
+            family ethernet-switching {
+                vlan {
+                    members [ v10 v20 ];
+                }
+            }
+        }
+    }
+}
+replace: vlans {
+    v10 {
+        vlan-id 10;
+    }
+}`;
+
+describe('xml', () => {
+	describe('parseXmlConfig', () => {
+		it('produces the same AST as the curly-brace format', () => {
+			expect(diffAst(parseJuniperConfig(config), parseXmlConfig(xml))).toEqual([]);
+		});
+
+		it('records element spans', () => {
+			const [system] = parseXmlConfig(xml).children;
+
+			expect(system.span).toEqual({
+				start: { line: 3, column: 5 },
+				end: { line: 8, column: 14 },
+			});
+		});
+
+		it('reports syntax errors and keeps what was read', () => {
+			const { ast, diagnostics } = parseXmlConfigWithDiagnostics(
+				'<configuration>\n    <system>\n        <host-name>sw-01</host-name>\n    </services>\n</configuration>',
+			);
+
+			expect(diagnostics.map(({ line, message }) => [line, message])).toEqual([
+				[1, 'Missing </configuration>'],
+				[2, 'Missing </system>'],
+				[4, 'Expected </system> but found </services>'],
+			]);
+			expect(astToConfig(ast)).toBe('system {\n    host-name sw-01;\n}');
+		});
+
+		it('requires a configuration element', () => {
+			expect(parseXmlConfigWithDiagnostics('<data/>').diagnostics[0].message).toBe(
+				'No <configuration> element found',
+			);
+		});
+	});
+
+	describe('astToXml', () => {
+		it('round-trips through the XML format', () => {
+			const ast = parseJuniperConfig(config);
+			const output = astToXml(ast);
+
+			expect(output).toContain(
+				'<interface inactive="inactive">\n            <name>ge-0/0/1</name>',
+			);
+			expect(output).toContain('<members>v10</members>\n');
+			expect(output).toContain('<vlans operation="replace">');
+			expect(diffAst(ast, parseXmlConfig(output))).toEqual([]);
+		});
+
+		it('round-trips prefix lists and one-line statements', () => {
+			const source = `policy-options {
+    prefix-list PL {
+        10.0.0.0/8;
+        192.168.0.0/16;
+    }
+}
+routing-options {
+    static {
+        route 0.0.0.0/0 next-hop 10.0.0.1;
+        route 10.6.0.0/16 discard;
+    }
+}`;
+			const output = astToXml(parseJuniperConfig(source));
+
+			expect(output).toContain(
+				'<prefix-list-item>\n                <name>10.0.0.0/8</name>\n            </prefix-list-item>',
+			);
+			expect(astToConfig(parseXmlConfig(output))).toBe(source);
+		});
+	});
+});
@@ -0,0 +1,520 @@
+import { createDiagnostic, createNode, JuniperNode, ParseDiagnostic, ParseResult } from './juniper';
+import {
+	IMPLICIT_NAME_ELEMENTS,
+	isIdentifier,
+	KEYED_ELEMENTS,
+	KEYWORD_VALUE_STATEMENTS,
+	LIST_STATEMENTS,
+	NAMED_STATEMENTS,
+	ONE_LINE_STATEMENTS,
+} from './schema';
+import { SourcePosition } from './tokenizer';
+
+/**
+ * Junos XML Configuration Format
+ *
+ * This module converts the `<configuration>` XML returned by NETCONF (or `show configuration |
+ * display xml`) into the same AST the curly-brace parser produces, and prints an AST back as
+ * XML. Entries are keyed by their `<name>` element, repeated list elements such as `<members>`
+ * become a single list statement, `<junos:comment>` elements become annotations and the
+ * `inactive`, `protect` and `operation` attributes map to the statement tags.
+ */
+
+export interface XmlElement {
+	tag: string;
+	attributes: Record<string, string>;
+	children: XmlElement[];
+	text: string;
+	// Where the element is in its source document, if it was read from one
+	start?: SourcePosition;
+	end?: SourcePosition;
+}
+
+const ENTITIES: Record<string, string> = {
+	lt: '<',
+	gt: '>',
+	amp: '&',
+	quot: '"',
+	apos: "'",
+};
+
+const OPEN_TAG = /<([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const CLOSE_TAG = /<\/([A-Za-z_][\w:.-]*)\s*>/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Replace character and entity references with the characters they stand for
+ */
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (reference, entity: string) => {
+		if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+		if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+		return ENTITIES[entity] ?? reference;
+	});
+}
+
+function encodeEntities(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Parse an XML document into an element tree, stopping at the first syntax error
+ * @param {string} source - The XML document
+ * @param {string[]} lines - The source lines, used for diagnostics
+ * @param {Array} diagnostics - Receives the syntax errors
+ * @return {Object} - A document element holding the top-level elements
+ */
+function parseXml(source: string, lines: string[], diagnostics: ParseDiagnostic[]): XmlElement {
+	const lineStarts = [0];
+	for (let i = 0; i < source.length; i++) {
+		if (source[i] === '\n') lineStarts.push(i + 1);
+	}
+	const positionAt = (offset: number): SourcePosition => {
+		let line = lineStarts.length - 1;
+		while (lineStarts[line] > offset) line--;
+		return { line: line + 1, column: offset - lineStarts[line] + 1 };
+	};
+	const error = (message: string, offset: number) =>
+		diagnostics.push(createDiagnostic(lines, 'error', message, positionAt(offset)));
+
+	const document: XmlElement = {
+		tag: '#document',
+		attributes: {},
+		children: [],
+		text: '',
+		start: positionAt(0),
+		end: positionAt(source.length),
+	};
+	const stack = [document];
+	let index = 0;
+
+	// Skip a construct that ends with a terminator, reporting it when the terminator is missing
+	const skipTo = (terminator: string, what: string) => {
+		const end = source.indexOf(terminator, index);
+		if (end === -1) {
+			error(`Unterminated ${what}`, index);
+			return -1;
+		}
+		const content = source.slice(index, end);
+		index = end + terminator.length;
+		return content;
+	};
+
+	while (index < source.length) {
+		const current = stack[stack.length - 1];
+
+		if (source.startsWith('<!--', index)) {
+			if (skipTo('-->', 'comment') === -1) break;
+		} else if (source.startsWith('<![CDATA[', index)) {
+			index += '<![CDATA['.length;
+			const content = skipTo(']]>', 'CDATA section');
+			if (content === -1) break;
+			current.text += content;
+		} else if (source.startsWith('<?', index) || source.startsWith('<!', index)) {
+			if (skipTo('>', 'declaration') === -1) break;
+		} else if (source.startsWith('</', index)) {
+			CLOSE_TAG.lastIndex = index;
+			const match = CLOSE_TAG.exec(source);
+			if (!match) {
+				error('Malformed closing tag', index);
+				break;
+			}
+			if (stack.length === 1 || match[1] !== current.tag) {
+				error(
+					stack.length === 1
+						? `Unexpected </${match[1]}>`
+						: `Expected </${current.tag}> but found </${match[1]}>`,
+					index,
+				);
+				break;
+			}
+			index = CLOSE_TAG.lastIndex;
+			current.end = positionAt(index);
+			stack.pop();
+		} else if (source[index] === '<') {
+			OPEN_TAG.lastIndex = index;
+			const match = OPEN_TAG.exec(source);
+			if (!match) {
+				error('Malformed tag', index);
+				break;
+			}
+
+			const attributes: Record<string, string> = {};
+			for (const [, name, double, single] of match[2].matchAll(ATTRIBUTE)) {
+				attributes[name] = decodeEntities(double ?? single);
+			}
+
+			const element: XmlElement = {
+				tag: match[1],
+				attributes,
+				children: [],
+				text: '',
+				start: positionAt(index),
+				end: positionAt(OPEN_TAG.lastIndex),
+			};
+			current.children.push(element);
+			index = OPEN_TAG.lastIndex;
+			if (!match[3]) stack.push(element);
+		} else {
+			const end = source.indexOf('<', index);
+			const text = source.slice(index, end === -1 ? source.length : end);
+			if (stack.length === 1 && text.trim()) {
+				error('Text outside of any element', index + text.search(/\S/));
+			}
+			current.text += decodeEntities(text);
+			index = end === -1 ? source.length : end;
+		}
+	}
+
+	for (const element of stack.slice(1).reverse()) {
+		diagnostics.push(
+			createDiagnostic(
+				lines,
+				'error',
+				`Missing </${element.tag}>`,
+				element.start ?? document.start!,
+			),
+		);
+	}
+
+	return document;
+}
+
+/**
+ * Find the `<configuration>` element, which NETCONF wraps in `<rpc-reply>` and `<data>`
+ */
+function findConfiguration(element: XmlElement): XmlElement | undefined {
+	for (const child of element.children) {
+		if (child.tag === 'configuration') return child;
+		const found = findConfiguration(child);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+/**
+ * Whether a value has to be quoted in the curly-brace format
+ */
+function needsQuotes(value: string): boolean {
+	return value === '' || /[\s;{}[\]#"]/.test(value);
+}
+
+/**
+ * Create a statement with a value, quoting it when needed
+ */
+function valueNode(type: string, name: string, value: string, children: JuniperNode[] = []) {
+	const node = createNode(type, name, value, children);
+	if (type === 'directive' && needsQuotes(value)) {
+		node.quoted = true;
+	}
+	return node;
+}
+
+/**
+ * Copy the tags of an element onto the node it became
+ */
+function applyAttributes(node: JuniperNode, element: XmlElement): JuniperNode {
+	const { inactive, protect, operation, replace } = element.attributes;
+	if (inactive) node.inactive = true;
+	if (protect) node.protect = true;
+	if (operation === 'replace' || replace) node.replace = true;
+	if (operation === 'delete') node.delete = true;
+	if (element.start && element.end) {
+		node.span = { start: { ...element.start }, end: { ...element.end } };
+	}
+	return node;
+}
+
+/**
+ * Turn one element into AST nodes
+ * @param {Object} element - The element to convert
+ * @param {string|null} parentTag - The tag of the enclosing element
+ * @return {Array} - The nodes, several for keyword values such as `<family><inet/><inet6/>`
+ */
+function convertElement(element: XmlElement, parentTag: string | null): JuniperNode[] {
+	const { tag, children } = element;
+	const key = children.find((child) => child.tag === 'name' && !child.children.length);
+	const rest = children.filter((child) => child !== key);
+
+	// Entries of "interfaces", "vlans", ... are written with their bare name
+	if (key && parentTag && IMPLICIT_NAME_ELEMENTS[parentTag] === tag) {
+		const name = key.text.trim();
+		const node = rest.length
+			? createNode('block', name, null, elementsToNodes(rest, tag))
+			: createNode('flag', name);
+		return [applyAttributes(node, element)];
+	}
+
+	if (key) {
+		const value = key.text.trim();
+		if (!rest.length) return [applyAttributes(valueNode('directive', tag, value), element)];
+
+		// "route 0.0.0.0/0 next-hop 10.0.0.1;" is a single statement
+		const [only] = rest;
+		if (
+			ONE_LINE_STATEMENTS.has(tag) &&
+			rest.length === 1 &&
+			!only.children.length &&
+			!Object.keys(only.attributes).length &&
+			!/[\s;{}[\]#"]/.test(only.text.trim())
+		) {
+			const words = [value, only.tag, only.text.trim()].filter(Boolean).join(' ');
+			return [applyAttributes(createNode('directive', tag, words), element)];
+		}
+
+		const type = /^<.+>$/.test(value) ? 'pattern-block' : 'named-block';
+		return [applyAttributes(valueNode(type, tag, value, elementsToNodes(rest, tag)), element)];
+	}
+
+	if (!children.length) {
+		const text = element.text.trim();
+		const node = text ? valueNode('directive', tag, text) : createNode('flag', tag);
+		return [applyAttributes(node, element)];
+	}
+
+	// "family inet" is <family><inet>...</inet></family>
+	if (KEYWORD_VALUE_STATEMENTS.has(tag)) {
+		return children.map((child) => {
+			const node = child.children.length
+				? createNode('named-block', tag, child.tag, elementsToNodes(child.children, tag))
+				: createNode('directive', tag, child.tag);
+			return applyAttributes(applyAttributes(node, element), child);
+		});
+	}
+
+	return [applyAttributes(createNode('block', tag, null, elementsToNodes(children, tag)), element)];
+}
+
+/**
+ * Turn the child elements of one element into AST nodes
+ * @param {Array} elements - The child elements
+ * @param {string|null} parentTag - The tag of the element that holds them
+ * @return {Array} - The AST nodes, in document order
+ */
+export function elementsToNodes(elements: XmlElement[], parentTag: string | null): JuniperNode[] {
+	const nodes: JuniperNode[] = [];
+	let annotations: string[] = [];
+
+	for (const element of elements) {
+		// Annotations come before the statement they belong to, as "/* text */"
+		if (element.tag === 'junos:comment') {
+			annotations.push(element.text.trim().replace(/^\/\*\s*|\s*\*\/$/g, ''));
+			continue;
+		}
+
+		const converted = convertElement(element, parentTag);
+		if (annotations.length && converted.length) {
+			converted[0].annotations = annotations;
+			annotations = [];
+		}
+
+		for (const node of converted) {
+			// Repeated values of a list statement, e.g. <members>a</members><members>b</members>
+			const previous = nodes[nodes.length - 1];
+			if (
+				previous &&
+				LIST_STATEMENTS.has(node.name ?? '') &&
+				node.type === 'directive' &&
+				!node.quoted &&
+				!node.annotations &&
+				previous.type === 'directive' &&
+				previous.name === node.name &&
+				!previous.quoted &&
+				Boolean(previous.inactive) === Boolean(node.inactive)
+			) {
+				previous.value = `${previous.value} ${node.value}`;
+				previous.list = true;
+				if (previous.span && node.span) previous.span.end = node.span.end;
+				continue;
+			}
+			nodes.push(node);
+		}
+	}
+
+	return nodes;
+}
+
+/**
+ * Parse Junos configuration XML into an AST
+ * @param {string} xml - The XML document, with a `<configuration>` element
+ * @return {Object} - The AST representation of the config
+ */
+export function parseXmlConfig(xml: string): JuniperNode {
+	return parseXmlConfigWithDiagnostics(xml).ast;
+}
+
+/**
+ * Parse Junos configuration XML into an AST, reporting anything that could not be parsed
+ *
+ * After a syntax error, the elements read so far are still converted.
+ * @param {string} xml - The XML document, with a `<configuration>` element
+ * @return {Object} - The AST and the diagnostics, in source order
+ */
+export function parseXmlConfigWithDiagnostics(xml: string): ParseResult {
+	const lines = xml.split('\n');
+	const diagnostics: ParseDiagnostic[] = [];
+	const document = parseXml(xml, lines, diagnostics);
+	const configuration = findConfiguration(document);
+
+	if (!configuration && !diagnostics.length) {
+		diagnostics.push(
+			createDiagnostic(lines, 'error', 'No <configuration> element found', { line: 1, column: 1 }),
+		);
+	}
+
+	const ast = createNode('root', null, null, elementsToNodes(configuration?.children ?? [], null));
+	ast.span = {
+		start: { line: 1, column: 1 },
+		end: { line: lines.length, column: lines[lines.length - 1].length + 1 },
+	};
+
+	diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+	return { ast, diagnostics };
+}
+
+/**
+ * Attributes for the tags of a node
+ */
+function nodeAttributes(node: JuniperNode): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	if (node.inactive) attributes.inactive = 'inactive';
+	if (node.protect) attributes.protect = 'protect';
+	if (node.replace) attributes.operation = 'replace';
+	if (node.delete) attributes.operation = 'delete';
+	return attributes;
+}
+
+/**
+ * Create an element that is not read from a document
+ */
+function createElement(
+	tag: string,
+	children: XmlElement[] = [],
+	text = '',
+	attributes: Record<string, string> = {},
+): XmlElement {
+	return { tag, attributes, children, text };
+}
+
+/**
+ * Child elements for the words after the key of a keyed statement,
+ * e.g. "next-hop 10.0.0.1" in "route 0.0.0.0/0 next-hop 10.0.0.1;"
+ */
+function wordsToElements(words: string[]): XmlElement[] {
+	const elements: XmlElement[] = [];
+	for (let i = 0; i < words.length; i++) {
+		const [word, next] = [words[i], words[i + 1]];
+		if (next !== undefined && isIdentifier(next)) {
+			elements.push(createElement(word, [], next));
+			i++;
+		} else {
+			elements.push(createElement(word));
+		}
+	}
+	return elements;
+}
+
+/**
+ * Turn a node into the elements that represent it, preceded by its annotations
+ * @param {Object} node - The node to convert
+ * @param {Object} parent - Its parent, entries of implicit-name containers are keyed
+ * @return {Array} - The elements
+ */
+function nodeToElements(node: JuniperNode, parent: JuniperNode): XmlElement[] {
+	const name = node.name ?? '';
+	const value = node.value ?? '';
+	const attributes = nodeAttributes(node);
+	const annotations = (node.annotations ?? []).map((text) =>
+		createElement('junos:comment', [], `/* ${text} */`),
+	);
+	const children = () => node.children.flatMap((child) => nodeToElements(child, node));
+	const keyed = (tag: string, key: string, rest: XmlElement[]) => [
+		...annotations,
+		createElement(tag, [createElement('name', [], key), ...rest], '', attributes),
+	];
+
+	// Entries of "interfaces", "vlans", ... are keyed by their name
+	const entryTag = parent.name ? IMPLICIT_NAME_ELEMENTS[parent.name] : undefined;
+	if (entryTag && (node.type === 'block' || node.type === 'flag')) {
+		return keyed(entryTag, name, children());
+	}
+
+	switch (node.type) {
+		case 'block':
+		case 'flag':
+			return [...annotations, createElement(name, children(), '', attributes)];
+		case 'named-block':
+		case 'pattern-block':
+			if (KEYWORD_VALUE_STATEMENTS.has(name)) {
+				const inner = createElement(value, children());
+				return [...annotations, createElement(name, [inner], '', attributes)];
+			}
+			return keyed(name, value, children());
+		case 'directive': {
+			if (node.list) {
+				return [
+					...annotations,
+					...value
+						.split(/\s+/)
+						.filter(Boolean)
+						.map((item) => createElement(name, [], item, attributes)),
+				];
+			}
+			if (KEYWORD_VALUE_STATEMENTS.has(name)) {
+				return [...annotations, createElement(name, [createElement(value)], '', attributes)];
+			}
+			if (!node.quoted && (NAMED_STATEMENTS.has(name) || KEYED_ELEMENTS.has(name))) {
+				const [key, ...words] = value.split(/\s+/);
+				return keyed(name, key, wordsToElements(words));
+			}
+			return [...annotations, createElement(name, [], value, attributes)];
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Convert an AST into the elements of a `<configuration>` element
+ * @param {Object} ast - The AST to convert
+ * @return {Array} - The top-level configuration elements
+ */
+export function astToElements(ast: JuniperNode): XmlElement[] {
+	return ast.children.flatMap((child) => nodeToElements(child, ast));
+}
+
+/**
+ * Helper for astToXml that prints an element and its children
+ */
+function elementToXml(element: XmlElement, indent: number): string[] {
+	const indentStr = '    '.repeat(indent);
+	const { tag, children, text } = element;
+	const attributes = Object.entries(element.attributes)
+		.map(([name, value]) => ` ${name}="${encodeEntities(value).replace(/"/g, '&quot;')}"`)
+		.join('');
+
+	if (children.length) {
+		return [
+			`${indentStr}<${tag}${attributes}>`,
+			...children.flatMap((child) => elementToXml(child, indent + 1)),
+			`${indentStr}</${tag}>`,
+		];
+	}
+	return text
+		? [`${indentStr}<${tag}${attributes}>${encodeEntities(text)}</${tag}>`]
+		: [`${indentStr}<${tag}${attributes}/>`];
+}
+
+/**
+ * Convert AST to Junos configuration XML
+ * @param {Object} ast - The AST to convert
+ * @return {string} - A `<configuration>` document
+ */
+export function astToXml(ast: JuniperNode): string {
+	return [
+		'<configuration>',
+		...astToElements(ast).flatMap((element) => elementToXml(element, 1)),
+		'</configuration>',
+	].join('\n');
+}
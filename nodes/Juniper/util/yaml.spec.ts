@@ -0,0 +1,44 @@
+import { toYaml } from './yaml';
+
+describe('yaml', () => {
+	describe('toYaml', () => {
+		it('writes nested mappings and sequences in block style', () => {
+			expect(
+				toYaml({
+					interfaces: {
+						'ge-0/0/0': { mtu: 9192, enabled: true, units: [{ name: 0, vlan: null }] },
+					},
+					servers: ['10.0.0.1', '10.0.0.2'],
+					empty: {},
+				}),
+			).toBe(`---
+interfaces:
+  ge-0/0/0:
+    mtu: 9192
+    enabled: true
+    units:
+      - name: 0
+        vlan: null
+servers:
+  - 10.0.0.1
+  - 10.0.0.2
+empty: {}
+`);
+		});
+
+		it('quotes strings that would read as something else', () => {
+			expect(
+				toYaml(['yes', '65001', '2001:db8::1', '{{ x }}', "it's", ' padded', 'two\nlines', '']),
+			).toBe(`---
+- 'yes'
+- '65001'
+- '2001:db8::1'
+- '{{ x }}'
+- it's
+- ' padded'
+- "two\\nlines"
+- ''
+`);
+		});
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * YAML Output
+ *
+ * Writes plain JSON-like data as block-style YAML for Ansible variable files. Strings are quoted
+ * whenever a YAML parser could read them as something else, such as `yes`, `1:20` or `{{ x }}`.
+ */
+
+const RESERVED = /^(?:~|null|true|false|yes|no|on|off|y|n)$/i;
+const NUMERIC = /^[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$|^[-+]?\.(?:inf|nan)$|^0[box]/i;
+
+const isCollection = (value: unknown): value is object =>
+	typeof value === 'object' &&
+	value !== null &&
+	(Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0);
+
+/**
+ * Write a string as a plain, single-quoted or double-quoted scalar
+ */
+function formatString(text: string): string {
+	// Control characters and line breaks need the escapes of a double-quoted scalar
+	if (/[\x00-\x1f\x7f]/.test(text)) return JSON.stringify(text);
+	if (
+		!text ||
+		text !== text.trim() ||
+		RESERVED.test(text) ||
+		NUMERIC.test(text) ||
+		/^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+		/[:#]/.test(text)
+	) {
+		return `'${text.replace(/'/g, "''")}'`;
+	}
+	return text;
+}
+
+/**
+ * Write a value that fits on one line
+ */
+function formatScalar(value: unknown): string {
+	if (value === null || value === undefined) return 'null';
+	if (Array.isArray(value)) return '[]';
+	if (typeof value === 'object') return '{}';
+	if (typeof value === 'string') return formatString(value);
+	return String(value);
+}
+
+/**
+ * The lines of a non-empty mapping or sequence, without indentation of their own
+ */
+function formatCollection(value: object): string[] {
+	if (Array.isArray(value)) {
+		return value.flatMap((item) => {
+			const lines = isCollection(item) ? formatCollection(item) : [formatScalar(item)];
+			return lines.map((line, index) => (index ? `  ${line}` : `- ${line}`));
+		});
+	}
+
+	return Object.entries(value).flatMap(([key, item]) => {
+		const name = formatString(key);
+		if (!isCollection(item)) return [`${name}: ${formatScalar(item)}`];
+		return [`${name}:`, ...formatCollection(item).map((line) => `  ${line}`)];
+	});
+}
+
+/**
+ * Convert a value to a YAML document
+ * @param {*} value - Objects, arrays, strings, numbers, booleans and null
+ * @return {string} - The YAML document, starting with `---`
+ */
+export function toYaml(value: unknown): string {
+	const lines = isCollection(value) ? formatCollection(value) : [formatScalar(value)];
+	return `---\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,56 @@
+import { inflateRawSync } from 'zlib';
+import { createZip, readZip } from './zip';
+
+describe('zip', () => {
+	describe('createZip', () => {
+		it('writes deflated entries listed in a central directory', () => {
+			const zip = createZip([
+				{ path: 'a.txt', content: 'hello hello hello' },
+				{ path: 'dir/b.yml', content: Buffer.from('---\n') },
+			]);
+
+			// End of central directory record
+			const end = zip.length - 22;
+			expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+			expect(zip.readUInt16LE(end + 10)).toBe(2);
+
+			// Walk the central directory and read each entry back through its local header
+			let entry = zip.readUInt32LE(end + 16);
+			const files: Record<string, string> = {};
+			for (let i = 0; i < 2; i++) {
+				expect(zip.readUInt32LE(entry)).toBe(0x02014b50);
+				const size = zip.readUInt32LE(entry + 20);
+				const nameLength = zip.readUInt16LE(entry + 28);
+				const name = zip.toString('utf8', entry + 46, entry + 46 + nameLength);
+				const local = zip.readUInt32LE(entry + 42);
+
+				expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+				const data = local + 30 + zip.readUInt16LE(local + 26);
+				files[name] = inflateRawSync(zip.subarray(data, data + size)).toString('utf8');
+				entry += 46 + nameLength;
+			}
+
+			expect(files).toEqual({ 'a.txt': 'hello hello hello', 'dir/b.yml': '---\n' });
+		});
+	});
+
+	describe('readZip', () => {
+		it('reads back the files of an archive', () => {
+			const files = [
+				{ path: 'configs/r1.conf', content: 'system {\n    host-name r1;\n}' },
+				{ path: 'configs/r2.conf', content: '' },
+			];
+
+			expect(
+				readZip(createZip(files)).map(({ path, content }) => ({
+					path,
+					content: content.toString('utf8'),
+				})),
+			).toEqual(files);
+		});
+
+		it('rejects data that is not a zip archive', () => {
+			expect(() => readZip(Buffer.from('not a zip archive at all'))).toThrow('Not a zip archive');
+		});
+	});
+});
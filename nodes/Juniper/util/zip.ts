@@ -0,0 +1,136 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * Zip Archives
+ *
+ * Writes zip archives with deflated entries, enough to hand several generated files over as one
+ * binary, and reads the stored and deflated entries that common tools produce. Written entries
+ * carry a fixed timestamp so the same files always give the same archive.
+ */
+
+export interface ZipEntry {
+	// Path inside the archive, with `/` separators
+	path: string;
+	content: string | Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_value, index) => {
+	let crc = index;
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+	}
+	return crc >>> 0;
+});
+
+/**
+ * CRC-32 checksum of a buffer, as stored in zip headers
+ */
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01 00:00, the earliest date an MS-DOS timestamp can hold
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+/**
+ * Create a zip archive
+ * @param {Array} entries - The files, in the order they should be listed
+ * @return {Buffer} - The archive
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const { path, content } of entries) {
+		const name = Buffer.from(path, 'utf8');
+		const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+		const compressed = deflateRawSync(data);
+		const crc = crc32(data);
+
+		// Fields shared by the local header and the central directory entry, from "version needed"
+		const common = Buffer.alloc(26);
+		common.writeUInt16LE(20, 0); // Version needed to extract: 2.0, for deflate
+		common.writeUInt16LE(0x0800, 2); // Flags: UTF-8 file names
+		common.writeUInt16LE(8, 4); // Compression method: deflate
+		common.writeUInt16LE(DOS_TIME, 6);
+		common.writeUInt16LE(DOS_DATE, 8);
+		common.writeUInt32LE(crc, 10);
+		common.writeUInt32LE(compressed.length, 14);
+		common.writeUInt32LE(data.length, 18);
+		common.writeUInt16LE(name.length, 22);
+		common.writeUInt16LE(0, 24); // Extra field length
+
+		const local = Buffer.alloc(4);
+		local.writeUInt32LE(0x04034b50, 0);
+		localParts.push(local, common, name, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4); // Version made by
+		common.copy(central, 6);
+		// Comment length, disk number and internal attributes stay 0
+		central.writeUInt32LE(0, 38); // External attributes
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, name);
+
+		offset += local.length + common.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Read the files of a zip archive
+ * @param {Buffer} zip - The archive
+ * @return {Array} - The files, in the order of the central directory, without directory entries
+ */
+export function readZip(zip: Buffer): Array<{ path: string; content: Buffer }> {
+	// The end of central directory record is last, followed only by an optional comment
+	let end = zip.length - 22;
+	while (end >= 0 && zip.readUInt32LE(end) !== 0x06054b50) end--;
+	if (end < 0) throw new Error('Not a zip archive');
+
+	const count = zip.readUInt16LE(end + 10);
+	let entry = zip.readUInt32LE(end + 16);
+	const files: Array<{ path: string; content: Buffer }> = [];
+
+	for (let i = 0; i < count; i++) {
+		if (zip.readUInt32LE(entry) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+
+		const method = zip.readUInt16LE(entry + 10);
+		const size = zip.readUInt32LE(entry + 20);
+		const nameLength = zip.readUInt16LE(entry + 28);
+		const path = zip.toString('utf8', entry + 46, entry + 46 + nameLength);
+		const local = zip.readUInt32LE(entry + 42);
+		entry += 46 + nameLength + zip.readUInt16LE(entry + 30) + zip.readUInt16LE(entry + 32);
+
+		if (path.endsWith('/')) continue;
+		if (size === 0xffffffff) throw new Error(`${path} needs Zip64, which is not supported`);
+
+		const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+		const data = zip.subarray(start, start + size);
+		if (method === 0) {
+			files.push({ path, content: Buffer.from(data) });
+		} else if (method === 8) {
+			files.push({ path, content: inflateRawSync(data) });
+		} else {
+			throw new Error(`${path} uses unsupported compression method ${method}`);
+		}
+	}
+
+	return files;
+}